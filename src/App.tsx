@@ -1,242 +1,523 @@
-import React, { useCallback, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useRef, useState } from 'react';
 import { 
   Container, Typography, Box, Button, Paper, Alert, CircularProgress, Stack,
   TextField, Select, MenuItem, FormControl, InputLabel, Grid, IconButton, Slider,
-  Badge
+  Badge, Checkbox, FormControlLabel, Autocomplete, LinearProgress
 } from '@mui/material';
 import { useDropzone } from 'react-dropzone';
-import * as pdfjsLib from 'pdfjs-dist';
 import DeleteIcon from '@mui/icons-material/Delete';
 import ImageIcon from '@mui/icons-material/Image';
+import ContentCopyIcon from '@mui/icons-material/ContentCopy';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import ArchiveIcon from '@mui/icons-material/Archive';
+import { LayoutSettings, MarketingImage, PDFFile, PDFPage } from './types.ts';
+import {
+  CanvasSize, LAYOUT_TEMPLATES, PagePlacement, SlotAdjustment, getLayoutTemplate, resizeSlotSelection
+} from './layoutTemplates.ts';
+import {
+  CUSTOM_PRESET_ID, MAX_OUTPUT_DIMENSION, MIN_OUTPUT_DIMENSION, OUTPUT_PRESETS, getOutputPresetName,
+  resolveOutputSize
+} from './outputPresets.ts';
+import { ExportEntry, buildExportZip, marketingImageFileName } from './batchExport.ts';
+import {
+  DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, EncodedImage, ExportFormat, ExportSettings,
+  encodeCanvas, getFormatInfo
+} from './imageEncoding.ts';
+import { TextLayer, createDefaultTextLayers, loadLayerFonts } from './textLayers.ts';
+import { blobToDataUrl, createCanvas, loadImage } from './canvasUtils.ts';
+import TextLayerEditor from './TextLayerEditor.tsx';
+import {
+  BrandLayers, DEFAULT_BRAND_LAYERS, LOGO_ANCHORS, LogoAnchor, LogoLayer, WATERMARK_PRESETS, WatermarkLayer
+} from './brandLayers.ts';
+import { BackgroundStyle, DEFAULT_BACKGROUND_STYLE } from './backgroundStyle.ts';
+import { documentPalette } from './colorPalette.ts';
+import BackgroundEditor from './BackgroundEditor.tsx';
+import { MOCKUP_MODES, MockupMode } from './mockups.ts';
+import { Scene, SceneImage, composeScene, renderScene } from './sceneRenderer.ts';
+import PageStyleEditor from './PageStyleEditor.tsx';
+import LivePreview from './LivePreview.tsx';
+import PagePicker from './PagePicker.tsx';
+import { scorePage, suggestPages } from './pageScoring.ts';
+import { PasswordReason, RasterDocument, openPdfDocument } from './pageRasterizer.ts';
+import { describePdfError } from './pdfErrors.ts';
+import PresetManager from './PresetManager.tsx';
+import UpdatePrompt from './UpdatePrompt.tsx';
+import JobList from './JobList.tsx';
+import PasswordDialog from './PasswordDialog.tsx';
+import { JobContext, throwIfCancelled, useJobQueue } from './useJobQueue.ts';
+import { IdentifiedFile, downloadFileName, hashFile, uniqueId } from './fileIdentity.ts';
+import {
+  DEFAULT_LAYOUT_SETTINGS, PresetStyle, StylePreset, applyPresetTextLayers, createPresetId, defaultPresetStyle,
+  loadStoredPresets, parsePresetFile, saveStoredPresets
+} from './stylePresets.ts';
+import {
+  FetchSettings, MAX_IMAGE_BYTES, MAX_PDF_BYTES, fetchRemoteFile, loadFetchSettings, parseUrlList, saveFetchSettings
+} from './remoteFetch.ts';
+import FetchSettingsPanel from './FetchSettingsPanel.tsx';
+import {
+  SessionSnapshot, StorageUsage, StoredSession, clearSession, estimateStorage, formatStorageSize,
+  isSessionStorageAvailable, loadSession, saveSession
+} from './sessionStore.ts';
 
-// Initialize PDF.js worker
-pdfjsLib.GlobalWorkerOptions.workerSrc = window.location.origin + '/pdf.worker.min.js';
+// Served from public/ and precached by the service worker, so it works offline
+const DEFAULT_BACKGROUND = `${process.env.PUBLIC_URL}/default-background.svg`;
 
-interface PDFPage {
-  pageNum: number;
-  imageUrl: string;
-}
+const BACKGROUND_IMAGE_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/svg+xml'];
 
-interface PDFFile {
-  file: File;
-  pages: PDFPage[];
-  selectedPages: {
-    left: number | null;
-    center: number | null;
-    right: number | null;
-  };
-}
+const DEFAULT_PRESET_STYLE = defaultPresetStyle(DEFAULT_BACKGROUND);
 
-const DEFAULT_BACKGROUND = 'https://firebasestorage.googleapis.com/v0/b/standards-site-beta.appspot.com/o/documents%2Flcsos40lnlj%2Fsoeq3d3monb%2FSTANDARDS%20VW%20COLOURS3.png?alt=media&token=f02400f5-7a12-4e59-b2a4-8e271cfba8bb';
+// Finished rendering its thumbnail, successfully or not
+const isPageFinished = (page: PDFPage) => page.thumbnailUrl !== null || page.error !== null;
+
+// Work run through the job queue: loading a PDF through to its first images, or regenerating them
+type ProcessingJob =
+  | { kind: 'load'; id: string; file: File }
+  | { kind: 'generate'; id: string };
+
+// Number fields take any value while typing; settle on the nearest allowed one when left
+const clampOnBlur = (value: number, min: number, max: number, apply: (value: number) => void) => () => {
+  if (value < min || value > max) apply(Math.min(max, Math.max(min, value)));
+};
 
 function App() {
   const [pdfFiles, setPdfFiles] = useState<PDFFile[]>([]);
-  const [marketingImages, setMarketingImages] = useState<{ [key: string]: string }>({});
+  // Jobs run long after they were queued, so they read the files as they are now
+  const pdfFilesRef = useRef(pdfFiles);
+  pdfFilesRef.current = pdfFiles;
+  const [marketingImages, setMarketingImages] = useState<{ [key: string]: MarketingImage[] }>({});
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  // Problems outside the job queue, shown until dismissed
+  const [errors, setErrors] = useState<{ id: number; message: string }[]>([]);
+  const nextErrorId = useRef(1);
   const [pdfUrl, setPdfUrl] = useState('');
   const [backgroundImage, setBackgroundImage] = useState<string | null>(DEFAULT_BACKGROUND);
   const [backgroundUrl, setBackgroundUrl] = useState('');
-  const [pageSize, setPageSize] = useState(400);
-  const [tiltAngle, setTiltAngle] = useState(15);
-  const [overlap, setOverlap] = useState(50);
-  const marketingCanvasRef = useRef<HTMLCanvasElement>(null);
+  const [backgroundStyle, setBackgroundStyle] = useState<BackgroundStyle>(DEFAULT_BACKGROUND_STYLE);
+  const [fetchSettings, setFetchSettings] = useState<FetchSettings>(loadFetchSettings);
+  const [zipAllSizes, setZipAllSizes] = useState(true);
+  const [exportSettings, setExportSettings] = useState<ExportSettings>(DEFAULT_EXPORT_SETTINGS);
+  const [brandLayers, setBrandLayers] = useState<BrandLayers>(DEFAULT_BRAND_LAYERS);
+  const [presets, setPresets] = useState<StylePreset[]>(() => loadStoredPresets(DEFAULT_PRESET_STYLE));
+  const [activePresetId, setActivePresetId] = useState<string | null>(null);
+  const activePreset = presets.find(preset => preset.id === activePresetId) ?? null;
+  // A saved session waiting for the user to restore or discard it
+  const [storedSession, setStoredSession] = useState<StoredSession | null>(null);
+  // Autosave stays off until any stored session has been dealt with, so it isn't overwritten
+  const [sessionReady, setSessionReady] = useState(false);
+  const [storageUsage, setStorageUsage] = useState<StorageUsage | null>(null);
+  // An encrypted PDF waiting for the user to type its password
+  const [passwordRequest, setPasswordRequest] = useState<{
+    fileName: string;
+    reason: PasswordReason;
+    resolve: (password: string | null) => void;
+  } | null>(null);
 
-  const generateMarketingImage = useCallback(async (pdfFile: PDFFile): Promise<string> => {
-    try {
-      const canvas = marketingCanvasRef.current;
-      if (!canvas) {
-        console.error('Canvas element not found');
-        throw new Error('Canvas element not found');
-      }
+  // A message already on screen isn't repeated, e.g. when every autosave fails
+  const reportError = useCallback((message: string) => {
+    setErrors(prev => (prev.some(error => error.message === message)
+      ? prev
+      : [...prev, { id: nextErrorId.current++, message }]));
+  }, []);
 
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        console.error('Could not get canvas context');
-        throw new Error('Could not get canvas context');
-      }
+  const dismissError = (id: number) => {
+    setErrors(prev => prev.filter(error => error.id !== id));
+  };
 
-      // Set canvas size
-      canvas.width = 1280;
-      canvas.height = 720;
-
-      // Clear canvas
-      ctx.clearRect(0, 0, canvas.width, canvas.height);
-
-      // Draw background if available
-      if (backgroundImage) {
-        const bgImg = new Image();
-        bgImg.crossOrigin = 'anonymous';
-        bgImg.src = backgroundImage;
-        await new Promise((resolve, reject) => {
-          bgImg.onload = resolve;
-          bgImg.onerror = reject;
-        });
-        const canvasAspect = canvas.width / canvas.height;
-        const imgAspect = bgImg.width / bgImg.height;
-
-        let drawWidth, drawHeight, offsetX, offsetY;
-        if (imgAspect > canvasAspect) {
-          // Image is wider than canvas
-          drawHeight = canvas.height;
-          drawWidth = bgImg.width * (canvas.height / bgImg.height);
-          offsetX = (canvas.width - drawWidth) / 2;
-          offsetY = 0;
-        } else {
-          // Image is taller than canvas
-          drawWidth = canvas.width;
-          drawHeight = bgImg.height * (canvas.width / bgImg.width);
-          offsetX = 0;
-          offsetY = (canvas.height - drawHeight) / 2;
+  // Password callback for openPdfDocument; cancelling the job closes the prompt
+  const requestPassword = (fileName: string, signal?: AbortSignal) => (reason: PasswordReason) => (
+    new Promise<string | null>(resolve => {
+      const abort = () => {
+        setPasswordRequest(null);
+        resolve(null);
+      };
+      signal?.addEventListener('abort', abort, { once: true });
+      setPasswordRequest({
+        fileName,
+        reason,
+        resolve: (password) => {
+          signal?.removeEventListener('abort', abort);
+          setPasswordRequest(null);
+          resolve(password);
         }
-        ctx.drawImage(bgImg, offsetX, offsetY, drawWidth, drawHeight);
-      }
+      });
+    })
+  );
 
-      // Get selected page images
-      const pageImages = await Promise.all(
-        ['left', 'center', 'right'].map(async (position) => {
-          const pageNum = pdfFile.selectedPages[position as keyof typeof pdfFile.selectedPages];
-          if (!pageNum) return null;
-          const page = pdfFile.pages.find(p => p.pageNum === pageNum);
-          if (!page) return null;
-          return page.imageUrl;
-        })
-      );
-
-      // Page layout settings (larger pages)
-      const pageWidth = pageSize;
-      const pageHeight = pageSize * 1.5;
-      const centerX = canvas.width / 2;
-      const centerY = canvas.height / 2 - (pageHeight / 2);
-      const positions = [
-        { angle: -tiltAngle * Math.PI / 180, x: centerX - (pageWidth*1.5) + overlap, y: centerY }, // left
-        { angle: 0, x: centerX - pageWidth / 2, y: centerY }, // center
-        { angle: tiltAngle * Math.PI / 180, x: centerX + (pageWidth/2) - overlap, y: centerY } // right
-      ];
-
-      // Draw left and right first, then center on top
-      for (const i of [0, 2, 1]) {
-        if (pageImages[i]) {
-          const img = new Image();
-          img.crossOrigin = 'anonymous';
-          img.src = pageImages[i]!;
-          await new Promise((resolve, reject) => {
-            img.onload = resolve;
-            img.onerror = reject;
-          });
-          ctx.save();
-          ctx.translate(positions[i].x + pageWidth / 2, positions[i].y + pageHeight / 2);
-          ctx.rotate(positions[i].angle);
-          ctx.drawImage(img, -pageWidth / 2, -pageHeight / 2, pageWidth, pageHeight);
-          ctx.restore();
-        }
-      }
+  // Gather everything a PDF's composition needs into a scene, loading images along the way
+  const buildScene = useCallback(async (
+    pdfFile: PDFFile,
+    size: CanvasSize
+  ): Promise<{ scene: Scene; placements: PagePlacement[] }> => {
+    // Rasterize just the pages this composition uses, at full resolution
+    const pageImages = await Promise.all(
+      pdfFile.selectedPages.map(async (pageNum) => {
+        if (!pageNum || pageNum > pdfFile.document.numPages) return null;
+        // A damaged page leaves its slot empty rather than failing the whole image
+        return pdfFile.document.getPageImage(pageNum).catch((e) => {
+          console.warn(`Skipping page ${pageNum} of ${pdfFile.file.name}:`, e);
+          return null;
+        });
+      })
+    );
+
+    let bgImg: SceneImage | null = null;
+    if (backgroundStyle.kind === 'image' && backgroundImage) {
+      bgImg = await loadImage(backgroundImage);
+    } else if (backgroundStyle.kind === 'cover-page') {
+      // Falls back to the document's colours if the cover can't be rendered
+      bgImg = await pdfFile.document.getPageImage(1).catch(() => null);
+    }
+    const logoImg = brandLayers.logo.imageUrl ? await loadImage(brandLayers.logo.imageUrl) : null;
+    await loadLayerFonts(pdfFile.textLayers);
+
+    return composeScene({
+      settings: pdfFile.settings,
+      textLayers: pdfFile.textLayers,
+      pageImages,
+      backgroundStyle,
+      backgroundImage: bgImg,
+      palette: documentPalette(pdfFile.pages),
+      brandLayers,
+      logoImage: logoImg
+    }, size);
+  }, [backgroundImage, backgroundStyle, brandLayers]);
 
-      return canvas.toDataURL('image/png');
+  const generateMarketingImage = useCallback(async (pdfFile: PDFFile, size: CanvasSize): Promise<EncodedImage> => {
+    try {
+      const { scene } = await buildScene(pdfFile, size);
+      return encodeCanvas(renderScene(scene, createCanvas), exportSettings);
     } catch (error) {
       console.error('Error generating marketing image:', error);
       throw error;
     }
-  }, [backgroundImage, pageSize, tiltAngle, overlap]);
+  }, [buildScene, exportSettings]);
 
-  const onDrop = useCallback(async (acceptedFiles: File[]) => {
-    if (acceptedFiles.length === 0) return;
-    
-    setLoading(true);
-    setError(null);
+  // Render one image per output preset selected for the PDF
+  const generateMarketingImages = useCallback(async (
+    pdfFile: PDFFile,
+    signal?: AbortSignal,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<MarketingImage[]> => {
+    const { outputPresetIds, customWidth, customHeight } = pdfFile.settings;
+    const images: MarketingImage[] = [];
+    for (const [i, presetId] of outputPresetIds.entries()) {
+      if (signal) throwIfCancelled(signal);
+      onProgress?.(i, outputPresetIds.length);
+      const size = resolveOutputSize(presetId, { width: customWidth, height: customHeight });
+      const encoded = await generateMarketingImage(pdfFile, size);
+      images.push({
+        presetId,
+        ...size,
+        ...encoded,
+        selectedPages: [...pdfFile.selectedPages],
+        settings: { ...pdfFile.settings }
+      });
+    }
+    return images;
+  }, [generateMarketingImage]);
 
-    const newPdfFiles: PDFFile[] = [];
-    
-    for (const file of acceptedFiles) {
-      if (file.type !== 'application/pdf') {
-        setError('One or more files are not PDFs.');
-        continue;
-      }
+  // Fill in page thumbnails and scores in the background, publishing them in small
+  // batches. Pages that fail to render are marked and skipped. Resolves with the
+  // finished pages, or null if the PDF was removed or the job cancelled first.
+  const renderThumbnails = useCallback(async (
+    pdfFile: PDFFile,
+    signal?: AbortSignal,
+    onProgress?: (done: number, total: number) => void
+  ): Promise<PDFPage[] | null> => {
+    const BATCH_SIZE = 8;
+    const finished: PDFPage[] = [...pdfFile.pages];
+    let batch: PDFPage[] = [];
+    const flush = () => {
+      const rendered = batch;
+      batch = [];
+      setPdfFiles(prev => prev.map(f => (f.id !== pdfFile.id ? f : {
+        ...f,
+        pages: f.pages.map(page => rendered.find(r => r.pageNum === page.pageNum) ?? page)
+      })));
+    };
 
+    for (const page of pdfFile.pages) {
+      if (signal?.aborted) {
+        batch.forEach(r => r.thumbnailUrl && URL.revokeObjectURL(r.thumbnailUrl));
+        return null;
+      }
       try {
-        const arrayBuffer = await file.arrayBuffer();
-        const loadingTask = pdfjsLib.getDocument({ data: arrayBuffer });
-        const doc = await loadingTask.promise;
-        const pages: PDFPage[] = [];
-        const totalPages = doc.numPages;
-
-        for (let i = 1; i <= totalPages; i++) {
-          const page = await doc.getPage(i);
-          const viewport = page.getViewport({ scale: 1.5 });
-          const canvas = document.createElement('canvas');
-          const context = canvas.getContext('2d');
-          if (!context) continue;
-          canvas.width = viewport.width;
-          canvas.height = viewport.height;
-          await page.render({ canvasContext: context, viewport }).promise;
-          pages.push({
-            pageNum: i,
-            imageUrl: canvas.toDataURL('image/png')
-          });
-        }
-
-        newPdfFiles.push({
-          file,
-          pages,
-          selectedPages: {
-            left: pages.length >= 2 ? 2 : 1,
-            center: 1,
-            right: pages.length >= 3 ? 3 : (pages.length >= 2 ? 2 : 1)
-          }
+        const { blob, stats, palette } = await pdfFile.document.renderThumbnail(page.pageNum);
+        batch.push({
+          pageNum: page.pageNum,
+          thumbnail: blob,
+          thumbnailUrl: URL.createObjectURL(blob),
+          score: scorePage(stats),
+          palette,
+          error: null
         });
       } catch (e) {
-        console.error(`Failed to process ${file.name}:`, e);
-        setError(`Failed to process ${file.name}`);
+        if (signal?.aborted || pdfFile.document.isDestroyed()) {
+          // The document was removed while we were rendering
+          batch.forEach(r => r.thumbnailUrl && URL.revokeObjectURL(r.thumbnailUrl));
+          console.warn(`Stopped rendering thumbnails for ${pdfFile.file.name}:`, e);
+          return null;
+        }
+        console.warn(`Could not render page ${page.pageNum} of ${pdfFile.file.name}:`, e);
+        batch.push({ ...page, error: describePdfError(e) });
       }
+      finished[page.pageNum - 1] = batch[batch.length - 1];
+      onProgress?.(page.pageNum, pdfFile.pages.length);
+      if (batch.length >= BATCH_SIZE) flush();
     }
+    flush();
+    return finished;
+  }, []);
 
-    setPdfFiles(prev => [...prev, ...newPdfFiles]);
-    
-    // Automatically generate marketing images for new PDFs
-    if (newPdfFiles.length > 0) {
-      const newImages: { [key: string]: string } = {};
-      for (const pdfFile of newPdfFiles) {
-        try {
-          const imageUrl = await generateMarketingImage(pdfFile);
-          if (imageUrl) {
-            newImages[pdfFile.file.name] = imageUrl;
-          }
-        } catch (error) {
-          console.error(`Failed to generate marketing image for ${pdfFile.file.name}:`, error);
-          setError(`Failed to generate marketing image for ${pdfFile.file.name}`);
-        }
-      }
-      setMarketingImages(prev => ({ ...prev, ...newImages }));
+  // Open a PDF in its initial state; new uploads follow the selected house style
+  const openPdfFile = async ({ id, file }: IdentifiedFile, signal: AbortSignal): Promise<PDFFile> => {
+    const initialSettings = activePreset?.settings ?? DEFAULT_LAYOUT_SETTINGS;
+    let document: RasterDocument;
+    try {
+      document = await openPdfDocument(file, requestPassword(file.name, signal));
+    } catch (e) {
+      console.error(`Failed to open ${file.name}:`, e);
+      throw new Error(describePdfError(e));
     }
-    
+    const title = document.title?.trim() || file.name.replace(/\.pdf$/i, '');
+    const pages: PDFPage[] = Array.from({ length: document.numPages }, (_, i) => ({
+      pageNum: i + 1,
+      thumbnail: null,
+      thumbnailUrl: null,
+      score: null,
+      palette: null,
+      error: null
+    }));
+
+    return {
+      id,
+      file,
+      title,
+      document,
+      pages,
+      selectedPages: resizeSlotSelection(getLayoutTemplate(initialSettings.templateId), [], pages.length),
+      settings: { ...initialSettings },
+      textLayers: activePreset
+        ? applyPresetTextLayers(activePreset.textLayers, createDefaultTextLayers(title))
+        : createDefaultTextLayers(title)
+    };
+  };
+
+  // Take out a PDF whose load was cancelled or failed before it was ready
+  const discardPdf = (pdfFile: PDFFile) => {
+    pdfFile.document.destroy();
+    setPdfFiles(prev => prev.filter(f => {
+      if (f.id !== pdfFile.id) return true;
+      f.pages.forEach(page => page.thumbnailUrl && URL.revokeObjectURL(page.thumbnailUrl));
+      return false;
+    }));
+  };
+
+  const composeImages = async (pdfFile: PDFFile, { signal, report }: JobContext) => {
+    const images = await generateMarketingImages(pdfFile, signal, (done, total) => (
+      report(`Composing image ${done + 1}/${total}`, done / total)
+    ));
+    throwIfCancelled(signal);
+    setMarketingImages(prev => ({ ...prev, [pdfFile.id]: images }));
+  };
+
+  const runJob = async (job: ProcessingJob, context: JobContext) => {
+    const { signal, report } = context;
+    // Regenerating, or retrying a load that got as far as composing
+    const loaded = pdfFilesRef.current.find(pdfFile => pdfFile.id === job.id);
+    if (loaded) {
+      await composeImages(loaded, context);
+      return;
+    }
+    if (job.kind === 'generate') throw new Error('This PDF is no longer loaded');
+
+    report('Opening');
+    const pdfFile = await openPdfFile(job, signal);
+    if (signal.aborted) {
+      pdfFile.document.destroy();
+      throwIfCancelled(signal);
+    }
+    setPdfFiles(prev => [...prev, pdfFile]);
+
+    // Once every page is scored, pick the best pages and generate marketing images with them
+    let pages: PDFPage[];
+    try {
+      const rendered = await renderThumbnails(pdfFile, signal, (done, total) => (
+        report(`Rendering page ${done}/${total}`, done / total)
+      ));
+      throwIfCancelled(signal);
+      if (!rendered) throw new Error('Could not render the pages');
+      if (rendered.every(page => page.error !== null)) throw new Error("None of this PDF's pages could be rendered");
+      pages = rendered;
+    } catch (e) {
+      discardPdf(pdfFile);
+      throw e;
+    }
+    report('Choosing pages');
+    // Settings and text may have been edited while we were scoring, so work from the file as it is now
+    const current = pdfFilesRef.current.find(f => f.id === pdfFile.id) ?? pdfFile;
+    const suggestion = suggestPages(getLayoutTemplate(current.settings.templateId), pages.map(page => page.score));
+    const untouched = (selection: (number | null)[]) => (
+      selection.every((pageNum, slot) => pageNum === pdfFile.selectedPages[slot])
+    );
+    // Leave the selection alone if it was changed by hand while we were scoring
+    setPdfFiles(prev => prev.map(f => (
+      f.id === pdfFile.id && untouched(f.selectedPages) ? { ...f, selectedPages: suggestion } : f
+    )));
+    // Composing uses the pages' colours as well as their scores
+    await composeImages({
+      ...current,
+      pages,
+      selectedPages: untouched(current.selectedPages) ? suggestion : current.selectedPages
+    }, context);
+  };
+
+  const { jobs, enqueue, cancel, cancelAll, retry, dismiss, clearFinished } = useJobQueue(runJob);
+
+  const loadPdfFiles = useCallback((entries: IdentifiedFile[]) => {
+    entries.forEach(entry => enqueue(entry.file.name, { kind: 'load', ...entry }));
+  }, [enqueue]);
+
+  // Uploads that are already loaded, waiting for the user to skip them or load them anyway
+  const [pendingDuplicates, setPendingDuplicates] = useState<{
+    entries: IdentifiedFile[];
+    duplicates: IdentifiedFile[];
+  } | null>(null);
+
+  const onDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+
+    const pdfs = acceptedFiles.filter(file => file.type === 'application/pdf');
+    if (pdfs.length < acceptedFiles.length) {
+      reportError('One or more files are not PDFs.');
+    }
+
+    setLoading(true);
+    let entries: IdentifiedFile[];
+    try {
+      entries = await Promise.all(pdfs.map(async file => ({ id: await hashFile(file), file })));
+    } catch (e) {
+      console.error('Failed to read dropped files:', e);
+      reportError('Failed to read the dropped files');
+      setLoading(false);
+      return;
+    }
+
+    // PDFs still being loaded count as loaded too
+    const loadedIds = new Set([
+      ...pdfFiles.map(pdfFile => pdfFile.id),
+      ...jobs
+        .filter(job => job.payload.kind === 'load' && (job.status === 'queued' || job.status === 'running'))
+        .map(job => job.payload.id)
+    ]);
+    const duplicates = entries.filter((entry, i) => (
+      loadedIds.has(entry.id) || entries.findIndex(other => other.id === entry.id) < i
+    ));
     setLoading(false);
-  }, [generateMarketingImage]);
+    if (duplicates.length > 0) {
+      setPendingDuplicates({ entries, duplicates });
+      return;
+    }
+    loadPdfFiles(entries);
+  }, [pdfFiles, jobs, loadPdfFiles, reportError]);
+
+  const resolveDuplicates = (loadAnyway: boolean) => {
+    if (!pendingDuplicates) return;
+    const { entries, duplicates } = pendingDuplicates;
+    setPendingDuplicates(null);
+    if (!loadAnyway) {
+      loadPdfFiles(entries.filter(entry => !duplicates.includes(entry)));
+      return;
+    }
+    // Give each extra copy its own id so its settings and images are kept apart
+    const taken = new Set([...pdfFiles.map(pdfFile => pdfFile.id), ...jobs.map(job => job.payload.id)]);
+    loadPdfFiles(entries.map(entry => {
+      const id = uniqueId(entry.id, taken);
+      taken.add(id);
+      return { ...entry, id };
+    }));
+  };
+
+  const updateFetchSettings = (changes: Partial<FetchSettings>) => {
+    const next = { ...fetchSettings, ...changes };
+    // Agreeing to one proxy is not agreeing to another
+    if (changes.proxyMode !== undefined || changes.proxyEndpoint !== undefined || changes.proxyTemplate !== undefined) {
+      next.proxyConsent = changes.proxyConsent ?? false;
+    }
+    setFetchSettings(next);
+    try {
+      saveFetchSettings(next);
+    } catch (e) {
+      console.error('Failed to save URL settings:', e);
+    }
+  };
 
   const handleBackgroundUrlChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setBackgroundUrl(e.target.value);
   };
 
-  const handleBackgroundUrlSubmit = () => {
-    if (backgroundUrl) {
-      setBackgroundImage(backgroundUrl);
+  // Fetched into a data URL so the background works offline and never taints the export canvas
+  const handleBackgroundUrlSubmit = async () => {
+    if (!backgroundUrl) return;
+    setLoading(true);
+    try {
+      const { blob } = await fetchRemoteFile(backgroundUrl.trim(), {
+        accept: BACKGROUND_IMAGE_TYPES,
+        maxBytes: MAX_IMAGE_BYTES,
+        settings: fetchSettings
+      });
+      setBackgroundImage(await blobToDataUrl(blob));
+      setBackgroundStyle(prev => ({ ...prev, kind: 'image' }));
+      setBackgroundUrl('');
+    } catch (error) {
+      console.error('Error loading background from URL:', error);
+      reportError(`Failed to load the background: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setLoading(false);
     }
   };
 
   const handleBackgroundDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
     const file = acceptedFiles[0];
-    if (!file.type.match(/^image\/(jpeg|png)$/)) {
-      setError('Please upload a JPEG or PNG image.');
+    if (!BACKGROUND_IMAGE_TYPES.includes(file.type)) {
+      reportError('Please upload a JPEG, PNG, WebP or SVG image.');
       return;
     }
     const reader = new FileReader();
     reader.onload = (e) => {
       if (e.target?.result) {
         setBackgroundImage(e.target.result as string);
+        setBackgroundStyle(prev => ({ ...prev, kind: 'image' }));
       }
     };
     reader.readAsDataURL(file);
-  }, []);
+  }, [reportError]);
+
+  const handleLogoDrop = useCallback(async (acceptedFiles: File[]) => {
+    if (acceptedFiles.length === 0) return;
+    const file = acceptedFiles[0];
+    if (!file.type.match(/^image\/(png|svg\+xml)$/)) {
+      reportError('Please upload a PNG or SVG logo.');
+      return;
+    }
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      if (e.target?.result) {
+        const imageUrl = e.target.result as string;
+        setBrandLayers(prev => ({ ...prev, logo: { ...prev.logo, imageUrl } }));
+      }
+    };
+    reader.readAsDataURL(file);
+  }, [reportError]);
+
+  const updateLogo = (changes: Partial<LogoLayer>) => {
+    setBrandLayers(prev => ({ ...prev, logo: { ...prev.logo, ...changes } }));
+  };
+
+  const updateWatermark = (changes: Partial<WatermarkLayer>) => {
+    setBrandLayers(prev => ({ ...prev, watermark: { ...prev.watermark, ...changes } }));
+  };
 
   const { getRootProps: getPdfDropProps, getInputProps: getPdfInputProps, isDragActive: isPdfDragActive } = useDropzone({
     onDrop,
@@ -246,135 +527,369 @@ function App() {
 
   const { getRootProps: getBgDropProps, getInputProps: getBgInputProps, isDragActive: isBgDragActive } = useDropzone({
     onDrop: handleBackgroundDrop,
-    accept: { 'image/jpeg': ['.jpg', '.jpeg'], 'image/png': ['.png'] },
+    accept: {
+      'image/jpeg': ['.jpg', '.jpeg'],
+      'image/png': ['.png'],
+      'image/webp': ['.webp'],
+      'image/svg+xml': ['.svg']
+    },
+    multiple: false
+  });
+
+  const { getRootProps: getLogoDropProps, getInputProps: getLogoInputProps, isDragActive: isLogoDragActive } = useDropzone({
+    onDrop: handleLogoDrop,
+    accept: { 'image/png': ['.png'], 'image/svg+xml': ['.svg'] },
     multiple: false
   });
 
-  const handlePageSelection = (pdfIndex: number, position: 'left' | 'center' | 'right', pageNum: number) => {
+  const handleResuggest = (pdfIndex: number) => {
+    setPdfFiles(prev => prev.map((pdfFile, i) => (i !== pdfIndex ? pdfFile : {
+      ...pdfFile,
+      selectedPages: suggestPages(getLayoutTemplate(pdfFile.settings.templateId), pdfFile.pages.map(page => page.score))
+    })));
+  };
+
+  const handlePageSelection = (pdfIndex: number, slot: number, pageNum: number) => {
+    setPdfFiles(prev => prev.map((pdfFile, i) => {
+      if (i !== pdfIndex) return pdfFile;
+      const selectedPages = [...pdfFile.selectedPages];
+      selectedPages[slot] = pageNum;
+      return { ...pdfFile, selectedPages };
+    }));
+  };
+
+  // Swapping templates changes the number of slots, so the selection is refitted too
+  const withSettings = (pdfFile: PDFFile, settings: LayoutSettings): PDFFile => ({
+    ...pdfFile,
+    settings,
+    selectedPages: resizeSlotSelection(
+      getLayoutTemplate(settings.templateId), pdfFile.selectedPages, pdfFile.pages.length
+    )
+  });
+
+  const updateSettings = (pdfIndex: number, changes: Partial<LayoutSettings>) => {
+    setPdfFiles(prev => prev.map((pdfFile, i) => (
+      i === pdfIndex ? withSettings(pdfFile, { ...pdfFile.settings, ...changes }) : pdfFile
+    )));
+  };
+
+  const handleSettingChange = <K extends keyof LayoutSettings>(pdfIndex: number, key: K, value: LayoutSettings[K]) => {
+    updateSettings(pdfIndex, { [key]: value });
+  };
+
+  // Adjustments belong to the slots of one template, so they don't survive a template change
+  const handleTemplateChange = (pdfIndex: number, templateId: string) => {
+    updateSettings(pdfIndex, { templateId, slotAdjustments: [] });
+  };
+
+  const handleSlotAdjust = (pdfIndex: number, slot: number, adjustment: SlotAdjustment | null) => {
+    setPdfFiles(prev => prev.map((pdfFile, i) => {
+      if (i !== pdfIndex) return pdfFile;
+      const slotAdjustments = [...pdfFile.settings.slotAdjustments];
+      slotAdjustments[slot] = adjustment;
+      return { ...pdfFile, settings: { ...pdfFile.settings, slotAdjustments } };
+    }));
+  };
+
+  const copySettingsToAll = (pdfIndex: number) => {
     setPdfFiles(prev => {
-      const newFiles = [...prev];
-      newFiles[pdfIndex].selectedPages[position] = pageNum;
-      return newFiles;
+      const source = prev[pdfIndex];
+      if (!source) return prev;
+      return prev.map(pdfFile => withSettings(pdfFile, { ...source.settings }));
     });
   };
 
-  const removePdf = (index: number) => {
-    setPdfFiles(prev => {
-      const newFiles = prev.filter((_, i) => i !== index);
-      setMarketingImages(prevImages => {
-        const newImages = { ...prevImages };
-        const removedFile = prev[index];
-        if (removedFile) {
-          delete newImages[removedFile.file.name];
+  const resetSettings = (pdfIndex: number) => {
+    setPdfFiles(prev => prev.map((pdfFile, i) => (
+      i === pdfIndex ? withSettings(pdfFile, { ...DEFAULT_LAYOUT_SETTINGS }) : pdfFile
+    )));
+  };
+
+  useEffect(() => {
+    if (!isSessionStorageAvailable()) return;
+    loadSession()
+      .then(session => {
+        if (session && session.files.length > 0) {
+          setStoredSession(session);
+        } else {
+          setSessionReady(true);
         }
-        return newImages;
+      })
+      .catch(e => {
+        console.error('Failed to load saved session:', e);
+        setSessionReady(true);
       });
-      return newFiles;
-    });
-  };
+  }, []);
 
-  const handleGenerateImages = async () => {
+  // Save the session a moment after the last change
+  useEffect(() => {
+    if (!sessionReady) return;
+    const timer = setTimeout(async () => {
+      const snapshot: SessionSnapshot = {
+        savedAt: new Date().toISOString(),
+        backgroundImage,
+        backgroundStyle,
+        brandLayers,
+        exportSettings,
+        activePresetId,
+        files: pdfFiles.map(pdfFile => ({
+          key: pdfFile.id,
+          title: pdfFile.title,
+          selectedPages: pdfFile.selectedPages,
+          settings: pdfFile.settings,
+          textLayers: pdfFile.textLayers
+        })),
+        marketingImages
+      };
+      try {
+        await saveSession(snapshot, new Map(pdfFiles.map(pdfFile => [pdfFile.id, pdfFile.file])));
+        setStorageUsage(await estimateStorage());
+      } catch (e) {
+        console.error('Failed to save session:', e);
+        reportError('Could not save this session in the browser. It will not survive a reload.');
+      }
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [
+    sessionReady, pdfFiles, marketingImages, backgroundImage, backgroundStyle, brandLayers, exportSettings, activePresetId,
+    reportError
+  ]);
+
+  const restoreSession = async (session: StoredSession) => {
+    setStoredSession(null);
     setLoading(true);
-    const newImages: { [key: string]: string } = {};
-    
-    for (const pdfFile of pdfFiles) {
-      const imageUrl = await generateMarketingImage(pdfFile);
-      if (imageUrl) {
-        newImages[pdfFile.file.name] = imageUrl;
+    setBackgroundImage(session.backgroundImage);
+    setBackgroundStyle(session.backgroundStyle);
+    setBrandLayers(session.brandLayers);
+    setExportSettings(session.exportSettings);
+    setActivePresetId(presets.some(preset => preset.id === session.activePresetId) ? session.activePresetId : null);
+
+    const restored: PDFFile[] = [];
+    for (const saved of session.files) {
+      const file = session.pdfs.get(saved.key);
+      // Skip anything that was uploaded again before choosing to restore
+      if (!file || pdfFiles.some(pdfFile => pdfFile.id === saved.key)) continue;
+      try {
+        const document = await openPdfDocument(file, requestPassword(file.name));
+        restored.push({
+          id: saved.key,
+          file,
+          title: saved.title,
+          document,
+          pages: Array.from({ length: document.numPages }, (_, i) => ({
+            pageNum: i + 1,
+            thumbnail: null,
+            thumbnailUrl: null,
+            score: null,
+            palette: null,
+            error: null
+          })),
+          selectedPages: saved.selectedPages,
+          settings: saved.settings,
+          textLayers: saved.textLayers
+        });
+      } catch (e) {
+        console.error(`Failed to restore ${saved.key}:`, e);
+        reportError(`Could not restore ${file.name}: ${describePdfError(e)}`);
       }
     }
-    
-    setMarketingImages(newImages);
+
+    // Anything uploaded before choosing to restore is kept alongside the restored files
+    setPdfFiles(prev => [...prev, ...restored]);
+    setMarketingImages(prev => ({
+      ...Object.fromEntries(
+        restored.map(pdfFile => [pdfFile.id, session.marketingImages[pdfFile.id] ?? []])
+      ),
+      ...prev
+    }));
+    restored.forEach(pdfFile => renderThumbnails(pdfFile));
     setLoading(false);
+    setSessionReady(true);
+  };
+
+  const discardStoredSession = async () => {
+    setStoredSession(null);
+    try {
+      await clearSession();
+    } catch (e) {
+      console.error('Failed to clear saved session:', e);
+    }
+    setSessionReady(true);
+  };
+
+  // Forget the saved session and start again with nothing loaded
+  const handleClearSession = async () => {
+    cancelAll();
+    pdfFiles.forEach(pdfFile => {
+      pdfFile.document.destroy();
+      pdfFile.pages.forEach(page => page.thumbnailUrl && URL.revokeObjectURL(page.thumbnailUrl));
+    });
+    setPdfFiles([]);
+    setMarketingImages({});
+    try {
+      await clearSession();
+      setStorageUsage(await estimateStorage());
+    } catch (e) {
+      console.error('Failed to clear session:', e);
+      reportError('Could not clear the saved session');
+    }
+  };
+
+  const persistPresets = (next: StylePreset[]) => {
+    try {
+      saveStoredPresets(next);
+      setPresets(next);
+      return true;
+    } catch (e) {
+      console.error('Failed to save presets:', e);
+      reportError('Could not save presets. Browser storage may be full; try a smaller logo or background.');
+      return false;
+    }
+  };
+
+  // Layout and text styling come from the first PDF, as the panel explains
+  const currentPresetStyle = (): PresetStyle => ({
+    backgroundImage,
+    backgroundStyle,
+    settings: { ...(pdfFiles[0]?.settings ?? DEFAULT_LAYOUT_SETTINGS), slotAdjustments: [] },
+    textLayers: pdfFiles[0]?.textLayers ?? createDefaultTextLayers(''),
+    brandLayers,
+    exportSettings
+  });
+
+  const handleSavePreset = (name: string, id: string | null) => {
+    const preset: StylePreset = {
+      ...currentPresetStyle(),
+      id: id ?? createPresetId(),
+      name,
+      updatedAt: new Date().toISOString()
+    };
+    const next = id ? presets.map(p => (p.id === id ? preset : p)) : [...presets, preset];
+    if (persistPresets(next)) setActivePresetId(preset.id);
   };
 
-  const handleDownload = (fileName: string) => {
-    const imageUrl = marketingImages[fileName];
-    if (!imageUrl) return;
+  const handleDeletePreset = (id: string) => {
+    if (persistPresets(presets.filter(preset => preset.id !== id))) setActivePresetId(null);
+  };
+
+  const handleApplyPreset = (preset: StylePreset) => {
+    setActivePresetId(preset.id);
+    setBackgroundImage(preset.backgroundImage);
+    setBackgroundStyle(preset.backgroundStyle);
+    setBrandLayers(preset.brandLayers);
+    setExportSettings(preset.exportSettings);
+    setPdfFiles(prev => prev.map(pdfFile => withSettings(
+      { ...pdfFile, textLayers: applyPresetTextLayers(preset.textLayers, pdfFile.textLayers) },
+      { ...preset.settings }
+    )));
+  };
+
+  // Imported presets replace saved ones with the same id and are added otherwise
+  const handleImportPresets = async (file: File) => {
+    try {
+      const imported = parsePresetFile(await file.text(), DEFAULT_PRESET_STYLE);
+      const importedIds = new Set(imported.map(preset => preset.id));
+      persistPresets([...presets.filter(preset => !importedIds.has(preset.id)), ...imported]);
+    } catch (e) {
+      console.error('Failed to import presets:', e);
+      reportError(e instanceof Error ? e.message : 'Failed to import presets');
+    }
+  };
+
+  const handleTextLayersChange = (pdfIndex: number, textLayers: TextLayer[]) => {
+    setPdfFiles(prev => prev.map((pdfFile, i) => (i === pdfIndex ? { ...pdfFile, textLayers } : pdfFile)));
+  };
+
+  const removePdf = (id: string) => {
+    jobs
+      .filter(job => job.payload.id === id && (job.status === 'queued' || job.status === 'running'))
+      .forEach(job => cancel(job.id));
+    const removed = pdfFiles.find(pdfFile => pdfFile.id === id);
+    if (removed) {
+      removed.document.destroy();
+      removed.pages.forEach(page => page.thumbnailUrl && URL.revokeObjectURL(page.thumbnailUrl));
+    }
+    setPdfFiles(prev => prev.filter(pdfFile => pdfFile.id !== id));
+    setMarketingImages(prev => {
+      const newImages = { ...prev };
+      delete newImages[id];
+      return newImages;
+    });
+  };
+
+  const handleGenerateImages = () => {
+    pdfFiles.forEach(pdfFile => enqueue(`${pdfFile.file.name} (regenerate)`, { kind: 'generate', id: pdfFile.id }));
+  };
+
+  // Display name of a loaded PDF, for labels and download names
+  const sourceName = (pdfId: string) => pdfFiles.find(pdfFile => pdfFile.id === pdfId)?.file.name ?? pdfId;
+
+  const handleDownload = (pdfId: string, presetId: string) => {
+    const image = marketingImages[pdfId]?.find(img => img.presetId === presetId);
+    if (!image) return;
     
     const link = document.createElement('a');
-    link.href = imageUrl;
-    link.download = `${fileName.replace('.pdf', '')}-marketing.png`;
+    link.href = image.imageUrl;
+    link.download = marketingImageFileName(sourceName(pdfId), image);
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
   };
 
+  const handleDownloadAll = async () => {
+    const entries: ExportEntry[] = Object.entries(marketingImages).flatMap(([pdfId, images]) =>
+      (zipAllSizes ? images : images.slice(0, 1)).map(image => ({ sourceName: sourceName(pdfId), image }))
+    );
+    if (entries.length === 0) return;
+
+    setLoading(true);
+    try {
+      const zipBlob = await buildExportZip(entries);
+      const url = URL.createObjectURL(zipBlob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'marketing-images.zip';
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to build ZIP archive:', error);
+      reportError('Failed to build the ZIP archive');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Download every URL in the list, then load the PDFs together. Failed URLs stay in the field to try again.
   const handlePdfUrlSubmit = async () => {
-    if (!pdfUrl) {
-      setError('Please enter a PDF URL');
+    const { urls, invalid } = parseUrlList(pdfUrl);
+    invalid.forEach(entry => reportError(`Not a web address: ${entry}`));
+    if (urls.length === 0) {
+      if (invalid.length === 0) reportError('Please enter a PDF URL');
       return;
     }
 
     setLoading(true);
-    setError(null);
-
-    try {
-      console.log('Fetching PDF from URL:', pdfUrl);
-      
-      // Try direct fetch first
-      let response;
+    const files: File[] = [];
+    const failed: string[] = [];
+    for (const url of urls) {
       try {
-        response = await fetch(pdfUrl, {
-          mode: 'cors',
-          credentials: 'omit',
-          headers: {
-            'Accept': 'application/pdf'
-          }
-        });
-      } catch (directFetchError) {
-        console.log('Direct fetch failed, trying with proxy...');
-        // If direct fetch fails, try with corsproxy.io
-        const proxyUrl = `https://corsproxy.io/?${encodeURIComponent(pdfUrl)}`;
-        response = await fetch(proxyUrl, {
-          headers: {
-            'Accept': 'application/pdf'
-          }
+        const { blob, contentDisposition } = await fetchRemoteFile(url, {
+          accept: ['application/pdf'],
+          maxBytes: MAX_PDF_BYTES,
+          settings: fetchSettings
         });
+        files.push(new File([blob], downloadFileName(contentDisposition, url), { type: 'application/pdf' }));
+      } catch (error) {
+        console.error(`Error loading PDF from ${url}:`, error);
+        reportError(`Failed to load ${url}: ${error instanceof Error ? error.message : String(error)}`);
+        failed.push(url);
       }
-      
-      if (!response.ok) {
-        throw new Error(`Failed to fetch PDF: ${response.status} ${response.statusText}`);
-      }
-
-      const contentType = response.headers.get('content-type');
-      if (!contentType || !contentType.includes('application/pdf')) {
-        console.warn('Warning: Response content-type is not PDF:', contentType);
-      }
-
-      const blob = await response.blob();
-      console.log('PDF blob size:', blob.size, 'bytes');
-      
-      if (blob.size === 0) {
-        throw new Error('Downloaded PDF is empty');
-      }
-
-      const file = new File([blob], 'downloaded.pdf', { type: 'application/pdf' });
-      console.log('Created File object:', file.name, file.size, 'bytes');
-      
-      // Use the existing onDrop function to process the file and generate the image
-      await onDrop([file]);
-      setPdfUrl(''); // Clear the URL input after successful load
-    } catch (error: any) {
-      console.error('Error loading PDF from URL:', error);
-      let errorMessage = 'Failed to load PDF from URL. ';
-      
-      if (error.message.includes('Failed to fetch')) {
-        errorMessage += 'Could not connect to the URL. This might be due to CORS restrictions. Please try a different URL or contact the website administrator.';
-      } else if (error.message.includes('empty')) {
-        errorMessage += 'The downloaded file is empty. Please check the URL.';
-      } else if (error.message.includes('content-type')) {
-        errorMessage += 'The URL does not point to a PDF file.';
-      } else if (error.message.includes('403')) {
-        errorMessage += 'Access to the PDF was forbidden. The URL might require authentication or the server might be blocking access.';
-      } else {
-        errorMessage += error.message || 'Please check the URL and try again.';
-      }
-      
-      setError(errorMessage);
-    } finally {
-      setLoading(false);
     }
+    setLoading(false);
+    setPdfUrl([...failed, ...invalid].join('\n'));
+    if (files.length > 0) await onDrop(files);
   };
 
   return (
@@ -398,11 +913,57 @@ function App() {
         />
       </Box>
 
-      {/* Hidden canvas for image generation */}
-      <canvas 
-        ref={marketingCanvasRef}
-        style={{ display: 'none' }}
-      />
+      {storedSession && (
+        <Alert
+          severity="info"
+          sx={{ mb: 2 }}
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button color="inherit" size="small" onClick={() => restoreSession(storedSession)}>
+                Restore
+              </Button>
+              <Button color="inherit" size="small" onClick={discardStoredSession}>
+                Discard
+              </Button>
+            </Stack>
+          }
+        >
+          Restore your previous session? {storedSession.files.length} PDF{storedSession.files.length === 1 ? '' : 's'},
+          last saved {new Date(storedSession.savedAt).toLocaleString()}.
+        </Alert>
+      )}
+
+      {sessionReady && (
+        <Stack direction="row" spacing={2} alignItems="center" justifyContent="flex-end" sx={{ mb: 2 }}>
+          {storageUsage && (
+            <Box sx={{ width: 220 }}>
+              <Typography variant="caption" color="text.secondary">
+                Saved locally: {formatStorageSize(storageUsage.usage)} of {formatStorageSize(storageUsage.quota)}
+              </Typography>
+              <LinearProgress
+                variant="determinate"
+                value={Math.min(100, 100 * storageUsage.usage / Math.max(1, storageUsage.quota))}
+              />
+            </Box>
+          )}
+          <Button size="small" color="error" startIcon={<DeleteIcon />} onClick={handleClearSession}>
+            Clear session
+          </Button>
+        </Stack>
+      )}
+
+      {/* Presets */}
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Typography variant="h6" gutterBottom>Presets</Typography>
+        <PresetManager
+          presets={presets}
+          activePresetId={activePresetId}
+          onApply={handleApplyPreset}
+          onSave={handleSavePreset}
+          onDelete={handleDeletePreset}
+          onImport={handleImportPresets}
+        />
+      </Paper>
 
       {/* Background Image Selection */}
       <Paper sx={{ p: 2, mb: 2 }}>
@@ -442,7 +1003,7 @@ function App() {
                 <input {...getBgInputProps()} />
                 <ImageIcon sx={{ fontSize: 40, color: 'primary.main', mb: 1 }} />
                 <Typography>
-                  {isBgDragActive ? 'Drop image here...' : 'Drag and drop a background image (JPEG/PNG)'}
+                  {isBgDragActive ? 'Drop image here...' : 'Drag and drop a background image (JPEG, PNG, WebP or SVG)'}
                 </Typography>
               </Box>
             </Box>
@@ -455,14 +1016,212 @@ function App() {
                 onChange={handleBackgroundUrlChange}
                 fullWidth
               />
-              <Button variant="contained" onClick={handleBackgroundUrlSubmit}>
+              <Button variant="contained" onClick={handleBackgroundUrlSubmit} disabled={loading || !backgroundUrl.trim()}>
                 Use URL
               </Button>
             </Stack>
           </Grid>
+          <Grid item xs={12}>
+            <BackgroundEditor
+              style={backgroundStyle}
+              onChange={(changes) => setBackgroundStyle(prev => ({ ...prev, ...changes }))}
+            />
+          </Grid>
+        </Grid>
+      </Paper>
+
+      {/* Logo & Watermark */}
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Typography variant="h6" gutterBottom>Logo &amp; Watermark</Typography>
+        <Grid container spacing={2} alignItems="center">
+          <Grid item xs={12} md={4}>
+            <Box
+              {...getLogoDropProps()}
+              sx={{
+                border: '2px dashed #1976d2',
+                borderRadius: 2,
+                p: 2,
+                textAlign: 'center',
+                bgcolor: isLogoDragActive ? '#e3f2fd' : 'background.paper',
+                cursor: 'pointer',
+                minHeight: 120,
+                display: 'flex',
+                flexDirection: 'column',
+                justifyContent: 'center',
+                alignItems: 'center',
+              }}
+            >
+              <input {...getLogoInputProps()} />
+              {brandLayers.logo.imageUrl ? (
+                <img src={brandLayers.logo.imageUrl} alt="Logo" style={{ maxWidth: '100%', maxHeight: 80 }} />
+              ) : (
+                <>
+                  <ImageIcon sx={{ fontSize: 40, color: 'primary.main', mb: 1 }} />
+                  <Typography>
+                    {isLogoDragActive ? 'Drop logo here...' : 'Drag and drop a logo (PNG/SVG)'}
+                  </Typography>
+                </>
+              )}
+            </Box>
+          </Grid>
+          <Grid item xs={12} md={8}>
+            <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap" alignItems="center">
+              <FormControl sx={{ minWidth: 150 }} size="small">
+                <InputLabel>Logo Position</InputLabel>
+                <Select
+                  value={brandLayers.logo.anchor}
+                  onChange={(e) => updateLogo({ anchor: e.target.value as LogoAnchor })}
+                  label="Logo Position"
+                >
+                  {LOGO_ANCHORS.map((anchor) => (
+                    <MenuItem key={anchor} value={anchor}>{anchor}</MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <TextField
+                label="Margin"
+                type="number"
+                size="small"
+                value={brandLayers.logo.margin}
+                onChange={e => {
+                  const val = Number(e.target.value);
+                  if (!isNaN(val)) updateLogo({ margin: val });
+                }}
+                onBlur={clampOnBlur(brandLayers.logo.margin, 0, 500, margin => updateLogo({ margin }))}
+                inputProps={{ min: 0, max: 500, step: 1 }}
+                sx={{ width: 100 }}
+              />
+              <Box>
+                <Typography gutterBottom>Logo Size</Typography>
+                <Slider
+                  value={brandLayers.logo.scale * 100}
+                  min={5}
+                  max={50}
+                  step={1}
+                  onChange={(_, value) => updateLogo({ scale: (value as number) / 100 })}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={(value) => `${value}%`}
+                  sx={{ width: 160 }}
+                />
+              </Box>
+              <Box>
+                <Typography gutterBottom>Logo Opacity</Typography>
+                <Slider
+                  value={brandLayers.logo.opacity * 100}
+                  min={0}
+                  max={100}
+                  step={1}
+                  onChange={(_, value) => updateLogo({ opacity: (value as number) / 100 })}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={(value) => `${value}%`}
+                  sx={{ width: 160 }}
+                />
+              </Box>
+              <Button
+                color="error"
+                onClick={() => updateLogo({ imageUrl: null })}
+                disabled={!brandLayers.logo.imageUrl}
+              >
+                Remove logo
+              </Button>
+            </Stack>
+          </Grid>
+          <Grid item xs={12}>
+            <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap" alignItems="center">
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={brandLayers.watermark.enabled}
+                    onChange={(e) => updateWatermark({ enabled: e.target.checked })}
+                  />
+                }
+                label="Tiled text watermark"
+              />
+              <Autocomplete
+                freeSolo
+                options={WATERMARK_PRESETS}
+                value={brandLayers.watermark.text}
+                onInputChange={(_, text) => updateWatermark({ text })}
+                disabled={!brandLayers.watermark.enabled}
+                renderInput={(params) => <TextField {...params} label="Watermark text" size="small" />}
+                sx={{ width: 200 }}
+              />
+              <TextField
+                label="Colour"
+                type="color"
+                size="small"
+                value={brandLayers.watermark.color}
+                onChange={(e) => updateWatermark({ color: e.target.value })}
+                disabled={!brandLayers.watermark.enabled}
+                sx={{ width: 90 }}
+              />
+              <Box>
+                <Typography gutterBottom>Watermark Opacity</Typography>
+                <Slider
+                  value={brandLayers.watermark.opacity * 100}
+                  min={5}
+                  max={100}
+                  step={1}
+                  onChange={(_, value) => updateWatermark({ opacity: (value as number) / 100 })}
+                  valueLabelDisplay="auto"
+                  valueLabelFormat={(value) => `${value}%`}
+                  disabled={!brandLayers.watermark.enabled}
+                  sx={{ width: 160 }}
+                />
+              </Box>
+            </Stack>
+          </Grid>
         </Grid>
       </Paper>
 
+      {/* Export Format */}
+      <Paper sx={{ p: 2, mb: 2 }}>
+        <Typography variant="h6" gutterBottom>Export Format</Typography>
+        <Stack direction="row" spacing={2} alignItems="center" useFlexGap flexWrap="wrap">
+          <FormControl sx={{ minWidth: 140 }}>
+            <InputLabel>Format</InputLabel>
+            <Select
+              value={exportSettings.format}
+              onChange={(e) => setExportSettings(prev => ({ ...prev, format: e.target.value as ExportFormat }))}
+              label="Format"
+            >
+              {EXPORT_FORMATS.map((info) => (
+                <MenuItem key={info.format} value={info.format}>
+                  {info.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box>
+            <Typography gutterBottom>Quality</Typography>
+            <Slider
+              value={exportSettings.quality}
+              min={10}
+              max={100}
+              step={1}
+              onChange={(_, value) => setExportSettings(prev => ({ ...prev, quality: value as number }))}
+              valueLabelDisplay="auto"
+              disabled={!getFormatInfo(exportSettings.format).lossy}
+              sx={{ width: 200 }}
+            />
+          </Box>
+          <TextField
+            label="Max file size (KB)"
+            type="number"
+            value={exportSettings.maxSizeKB ?? ''}
+            onChange={e => {
+              const val = e.target.value === '' ? null : Number(e.target.value);
+              if (val === null || (!isNaN(val) && val > 0)) {
+                setExportSettings(prev => ({ ...prev, maxSizeKB: val }));
+              }
+            }}
+            helperText={getFormatInfo(exportSettings.format).lossy ? 'Leave empty for no limit' : 'Only applies to JPEG and WebP'}
+            inputProps={{ min: 1, step: 1 }}
+            sx={{ width: 220 }}
+          />
+        </Stack>
+      </Paper>
+
       {/* PDF Upload Area */}
       <Box {...getPdfDropProps()} sx={{ 
         border: '2px dashed #1976d2', 
@@ -481,26 +1240,32 @@ function App() {
 
       {/* PDF URL Input */}
       <Paper sx={{ p: 2, mb: 2 }}>
-        <Typography variant="h6" gutterBottom>Or Load PDF from URL</Typography>
+        <Typography variant="h6" gutterBottom>Or Load PDFs from URLs</Typography>
         <Grid container spacing={2} alignItems="center">
           <Grid item xs={12}>
-            <Stack direction="row" spacing={2}>
+            <Stack direction="row" spacing={2} alignItems="flex-start">
               <TextField
-                label="Enter PDF URL"
+                label="Enter PDF URLs, one per line"
                 value={pdfUrl}
                 onChange={(e) => setPdfUrl(e.target.value)}
                 fullWidth
+                multiline
+                maxRows={8}
                 placeholder="https://example.com/document.pdf"
               />
               <Button 
                 variant="contained" 
                 onClick={handlePdfUrlSubmit}
-                disabled={loading || !pdfUrl}
+                disabled={loading || !pdfUrl.trim()}
+                sx={{ flexShrink: 0 }}
               >
-                Load PDF
+                Load PDFs
               </Button>
             </Stack>
           </Grid>
+          <Grid item xs={12}>
+            <FetchSettingsPanel settings={fetchSettings} onChange={updateFetchSettings} />
+          </Grid>
         </Grid>
       </Paper>
 
@@ -509,60 +1274,147 @@ function App() {
         <Stack spacing={2} sx={{ my: 2 }}>
           <Typography variant="h6">Uploaded PDFs</Typography>
           {pdfFiles.map((pdfFile, index) => (
-            <Paper key={index} sx={{ p: 2 }}>
+            <Paper key={pdfFile.id} sx={{ p: 2 }}>
               <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 2 }}>
-                <Typography variant="subtitle1">{pdfFile.file.name}</Typography>
-                <IconButton onClick={() => removePdf(index)} color="error">
-                  <DeleteIcon />
-                </IconButton>
+                <Box sx={{ flex: 1, mr: 2 }}>
+                  <Typography variant="subtitle1">{pdfFile.file.name}</Typography>
+                  {!pdfFile.pages.every(isPageFinished) && (
+                    <Box sx={{ maxWidth: 320 }}>
+                      <Typography variant="caption" color="text.secondary">
+                        Rendering thumbnails {pdfFile.pages.filter(isPageFinished).length}/{pdfFile.pages.length}
+                      </Typography>
+                      <LinearProgress
+                        variant="determinate"
+                        value={100 * pdfFile.pages.filter(isPageFinished).length / pdfFile.pages.length}
+                      />
+                    </Box>
+                  )}
+                </Box>
+                <Stack direction="row" spacing={1} alignItems="center">
+                  <Button
+                    size="small"
+                    startIcon={<ContentCopyIcon />}
+                    onClick={() => copySettingsToAll(index)}
+                    disabled={pdfFiles.length < 2}
+                  >
+                    Copy settings to all
+                  </Button>
+                  <Button
+                    size="small"
+                    startIcon={<RestartAltIcon />}
+                    onClick={() => resetSettings(index)}
+                  >
+                    Reset to default
+                  </Button>
+                  <IconButton onClick={() => removePdf(pdfFile.id)} color="error">
+                    <DeleteIcon />
+                  </IconButton>
+                </Stack>
               </Box>
+
+              {pdfFile.pages.some(page => page.error) && (
+                <Alert severity="warning" sx={{ mb: 2 }}>
+                  {pdfFile.pages.filter(page => page.error).length === 1 ? 'Page ' : 'Pages '}
+                  {pdfFile.pages.filter(page => page.error).map(page => page.pageNum).join(', ')} could not be
+                  rendered ({pdfFile.pages.find(page => page.error)?.error}). The other pages can still be used.
+                </Alert>
+              )}
               
               <Grid container spacing={2}>
+                {/* Live Preview */}
+                <Grid item xs={12}>
+                  <LivePreview
+                    pdfFile={pdfFile}
+                    size={resolveOutputSize(pdfFile.settings.outputPresetIds[0], {
+                      width: pdfFile.settings.customWidth,
+                      height: pdfFile.settings.customHeight
+                    })}
+                    compose={buildScene}
+                    onAdjust={(slot, adjustment) => handleSlotAdjust(index, slot, adjustment)}
+                  />
+                </Grid>
+                {/* Layout Template */}
+                <Grid item xs={12}>
+                  <FormControl fullWidth>
+                    <InputLabel>Layout Template</InputLabel>
+                    <Select
+                      value={pdfFile.settings.templateId}
+                      onChange={(e) => handleTemplateChange(index, e.target.value)}
+                      label="Layout Template"
+                    >
+                      {LAYOUT_TEMPLATES.map((template) => (
+                        <MenuItem key={template.id} value={template.id}>
+                          {template.name}
+                        </MenuItem>
+                      ))}
+                    </Select>
+                  </FormControl>
+                </Grid>
                 {/* Page Selection */}
                 <Grid item xs={12}>
-                  <Stack direction="row" spacing={2}>
-                    <FormControl fullWidth sx={{ flex: 1 }}>
-                      <InputLabel>Left Page</InputLabel>
-                      <Select
-                        value={pdfFile.selectedPages.left || ''}
-                        onChange={(e) => handlePageSelection(index, 'left', Number(e.target.value))}
-                        label="Left Page"
-                      >
-                        {pdfFile.pages.map((page) => (
-                          <MenuItem key={page.pageNum} value={page.pageNum}>
-                            Page {page.pageNum}
-                          </MenuItem>
-                        ))}
-                      </Select>
-                    </FormControl>
-                    <FormControl fullWidth sx={{ flex: 1 }}>
-                      <InputLabel>Center Page</InputLabel>
-                      <Select
-                        value={pdfFile.selectedPages.center || ''}
-                        onChange={(e) => handlePageSelection(index, 'center', Number(e.target.value))}
-                        label="Center Page"
-                      >
-                        {pdfFile.pages.map((page) => (
-                          <MenuItem key={page.pageNum} value={page.pageNum}>
-                            Page {page.pageNum}
-                          </MenuItem>
-                        ))}
-                      </Select>
-                    </FormControl>
+                  <PagePicker
+                    pages={pdfFile.pages}
+                    slots={getLayoutTemplate(pdfFile.settings.templateId).slots}
+                    selectedPages={pdfFile.selectedPages}
+                    onSelect={(slot, pageNum) => handlePageSelection(index, slot, pageNum)}
+                    onResuggest={() => handleResuggest(index)}
+                  />
+                </Grid>
+                {/* Output Sizes */}
+                <Grid item xs={12}>
+                  <Stack direction="row" spacing={2} alignItems="center">
                     <FormControl fullWidth sx={{ flex: 1 }}>
-                      <InputLabel>Right Page</InputLabel>
+                      <InputLabel>Output Sizes</InputLabel>
                       <Select
-                        value={pdfFile.selectedPages.right || ''}
-                        onChange={(e) => handlePageSelection(index, 'right', Number(e.target.value))}
-                        label="Right Page"
+                        multiple
+                        value={pdfFile.settings.outputPresetIds}
+                        onChange={(e) => {
+                          const value = e.target.value;
+                          const presetIds = typeof value === 'string' ? value.split(',') : value;
+                          // Always keep at least one output
+                          if (presetIds.length > 0) handleSettingChange(index, 'outputPresetIds', presetIds);
+                        }}
+                        label="Output Sizes"
+                        renderValue={(selected) => selected.map(getOutputPresetName).join(', ')}
                       >
-                        {pdfFile.pages.map((page) => (
-                          <MenuItem key={page.pageNum} value={page.pageNum}>
-                            Page {page.pageNum}
+                        {OUTPUT_PRESETS.map((preset) => (
+                          <MenuItem key={preset.id} value={preset.id}>
+                            {preset.name}
                           </MenuItem>
                         ))}
+                        <MenuItem value={CUSTOM_PRESET_ID}>
+                          {getOutputPresetName(CUSTOM_PRESET_ID)}
+                        </MenuItem>
                       </Select>
                     </FormControl>
+                    {pdfFile.settings.outputPresetIds.includes(CUSTOM_PRESET_ID) && (
+                      <>
+                        <TextField
+                          label="Width"
+                          type="number"
+                          value={pdfFile.settings.customWidth}
+                          onChange={e => {
+                            const val = Number(e.target.value);
+                            if (!isNaN(val)) handleSettingChange(index, 'customWidth', val);
+                          }}
+                          onBlur={clampOnBlur(pdfFile.settings.customWidth, MIN_OUTPUT_DIMENSION, MAX_OUTPUT_DIMENSION, val => handleSettingChange(index, 'customWidth', val))}
+                          inputProps={{ min: MIN_OUTPUT_DIMENSION, max: MAX_OUTPUT_DIMENSION, step: 1 }}
+                          sx={{ width: 110 }}
+                        />
+                        <TextField
+                          label="Height"
+                          type="number"
+                          value={pdfFile.settings.customHeight}
+                          onChange={e => {
+                            const val = Number(e.target.value);
+                            if (!isNaN(val)) handleSettingChange(index, 'customHeight', val);
+                          }}
+                          onBlur={clampOnBlur(pdfFile.settings.customHeight, MIN_OUTPUT_DIMENSION, MAX_OUTPUT_DIMENSION, val => handleSettingChange(index, 'customHeight', val))}
+                          inputProps={{ min: MIN_OUTPUT_DIMENSION, max: MAX_OUTPUT_DIMENSION, step: 1 }}
+                          sx={{ width: 110 }}
+                        />
+                      </>
+                    )}
                   </Stack>
                 </Grid>
                 {/* Page Width */}
@@ -570,21 +1422,22 @@ function App() {
                   <Typography gutterBottom>Page Width</Typography>
                   <Stack direction="row" spacing={2} alignItems="center">
                     <Slider
-                      value={pageSize}
+                      value={pdfFile.settings.pageSize}
                       min={100}
                       max={600}
                       step={1}
-                      onChange={(_, value) => setPageSize(value as number)}
+                      onChange={(_, value) => handleSettingChange(index, 'pageSize', value as number)}
                       valueLabelDisplay="auto"
                       sx={{ width: 200 }}
                     />
                     <TextField
                       type="number"
-                      value={pageSize}
+                      value={pdfFile.settings.pageSize}
                       onChange={e => {
                         const val = Number(e.target.value);
-                        if (!isNaN(val)) setPageSize(val);
+                        if (!isNaN(val)) handleSettingChange(index, 'pageSize', val);
                       }}
+                      onBlur={clampOnBlur(pdfFile.settings.pageSize, 100, 600, val => handleSettingChange(index, 'pageSize', val))}
                       inputProps={{ min: 100, max: 600, step: 1 }}
                       size="small"
                       sx={{ width: 80 }}
@@ -596,21 +1449,22 @@ function App() {
                   <Typography gutterBottom>Page Overlap</Typography>
                   <Stack direction="row" spacing={2} alignItems="center">
                     <Slider
-                      value={overlap}
+                      value={pdfFile.settings.overlap}
                       min={0}
                       max={300}
                       step={1}
-                      onChange={(_, value) => setOverlap(value as number)}
+                      onChange={(_, value) => handleSettingChange(index, 'overlap', value as number)}
                       valueLabelDisplay="auto"
                       sx={{ width: 200 }}
                     />
                     <TextField
                       type="number"
-                      value={overlap}
+                      value={pdfFile.settings.overlap}
                       onChange={e => {
                         const val = Number(e.target.value);
-                        if (!isNaN(val)) setOverlap(val);
+                        if (!isNaN(val)) handleSettingChange(index, 'overlap', val);
                       }}
+                      onBlur={clampOnBlur(pdfFile.settings.overlap, 0, 300, val => handleSettingChange(index, 'overlap', val))}
                       inputProps={{ min: 0, max: 300, step: 1 }}
                       size="small"
                       sx={{ width: 80 }}
@@ -622,27 +1476,94 @@ function App() {
                   <Typography gutterBottom>Tilt Angle</Typography>
                   <Stack direction="row" spacing={2} alignItems="center">
                     <Slider
-                      value={tiltAngle}
+                      value={pdfFile.settings.tiltAngle}
                       min={0}
                       max={45}
                       step={1}
-                      onChange={(_, value) => setTiltAngle(value as number)}
+                      onChange={(_, value) => handleSettingChange(index, 'tiltAngle', value as number)}
                       valueLabelDisplay="auto"
                       sx={{ width: 200 }}
                     />
                     <TextField
                       type="number"
-                      value={tiltAngle}
+                      value={pdfFile.settings.tiltAngle}
                       onChange={e => {
                         const val = Number(e.target.value);
-                        if (!isNaN(val)) setTiltAngle(val);
+                        if (!isNaN(val)) handleSettingChange(index, 'tiltAngle', val);
                       }}
+                      onBlur={clampOnBlur(pdfFile.settings.tiltAngle, 0, 45, val => handleSettingChange(index, 'tiltAngle', val))}
                       inputProps={{ min: 0, max: 45, step: 1 }}
                       size="small"
                       sx={{ width: 80 }}
                     />
                   </Stack>
                 </Box>
+                {/* Mockup */}
+                <Grid item xs={12}>
+                  <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap" alignItems="center">
+                    <FormControl sx={{ minWidth: 200 }}>
+                      <InputLabel>Mockup</InputLabel>
+                      <Select
+                        value={pdfFile.settings.mockup.mode}
+                        onChange={(e) => handleSettingChange(index, 'mockup', {
+                          ...pdfFile.settings.mockup, mode: e.target.value as MockupMode
+                        })}
+                        label="Mockup"
+                      >
+                        {MOCKUP_MODES.map(({ mode, label }) => (
+                          <MenuItem key={mode} value={mode}>{label}</MenuItem>
+                        ))}
+                      </Select>
+                    </FormControl>
+                    <Box>
+                      <Typography gutterBottom>Perspective Angle</Typography>
+                      <Slider
+                        value={pdfFile.settings.mockup.angle}
+                        min={0}
+                        max={60}
+                        step={1}
+                        onChange={(_, value) => handleSettingChange(index, 'mockup', {
+                          ...pdfFile.settings.mockup, angle: value as number
+                        })}
+                        valueLabelDisplay="auto"
+                        disabled={['flat', 'isometric'].includes(pdfFile.settings.mockup.mode)}
+                        sx={{ width: 200 }}
+                      />
+                    </Box>
+                    <Box>
+                      <Typography gutterBottom>Thickness</Typography>
+                      <Slider
+                        value={pdfFile.settings.mockup.thickness}
+                        min={0}
+                        max={80}
+                        step={1}
+                        onChange={(_, value) => handleSettingChange(index, 'mockup', {
+                          ...pdfFile.settings.mockup, thickness: value as number
+                        })}
+                        valueLabelDisplay="auto"
+                        disabled={!['book', 'booklet', 'isometric'].includes(pdfFile.settings.mockup.mode)}
+                        sx={{ width: 200 }}
+                      />
+                    </Box>
+                  </Stack>
+                </Grid>
+                {/* Page Style */}
+                <Grid item xs={12}>
+                  <Typography gutterBottom>Page Style</Typography>
+                  <PageStyleEditor
+                    style={pdfFile.settings.pageStyle}
+                    onChange={(pageStyle) => handleSettingChange(index, 'pageStyle', pageStyle)}
+                  />
+                </Grid>
+                {/* Text Overlays */}
+                <Grid item xs={12}>
+                  <Typography gutterBottom>Text Overlays</Typography>
+                  <TextLayerEditor
+                    layers={pdfFile.textLayers}
+                    onChange={(layers) => handleTextLayersChange(index, layers)}
+                    palette={documentPalette(pdfFile.pages).map(swatch => swatch.color)}
+                  />
+                </Grid>
               </Grid>
             </Paper>
           ))}
@@ -658,45 +1579,114 @@ function App() {
         </Stack>
       )}
 
+      {pendingDuplicates && (
+        <Alert
+          severity="warning"
+          sx={{ my: 2 }}
+          action={
+            <Stack direction="row" spacing={1}>
+              <Button color="inherit" size="small" onClick={() => resolveDuplicates(false)}>
+                Skip duplicates
+              </Button>
+              <Button color="inherit" size="small" onClick={() => resolveDuplicates(true)}>
+                Load anyway
+              </Button>
+            </Stack>
+          }
+        >
+          Already loaded: {pendingDuplicates.duplicates.map(entry => entry.file.name).join(', ')}
+        </Alert>
+      )}
+
+      <JobList
+        jobs={jobs}
+        onCancel={cancel}
+        onCancelAll={cancelAll}
+        onRetry={retry}
+        onDismiss={dismiss}
+        onClearFinished={clearFinished}
+      />
+
       {loading && (
         <Box sx={{ display: 'flex', justifyContent: 'center', my: 2 }}>
           <CircularProgress />
         </Box>
       )}
 
-      {error && (
-        <Alert severity="error" sx={{ my: 2 }}>{error}</Alert>
+      {errors.map((error) => (
+        <Alert key={error.id} severity="error" sx={{ my: 2 }} onClose={() => dismissError(error.id)}>
+          {error.message}
+        </Alert>
+      ))}
+      {errors.length > 1 && (
+        <Button size="small" onClick={() => setErrors([])}>
+          Dismiss all errors
+        </Button>
       )}
 
       {/* Generated Marketing Images */}
       {Object.keys(marketingImages).length > 0 && (
         <Stack spacing={2} sx={{ my: 2 }}>
-          <Typography variant="h6">Generated Marketing Images</Typography>
+          <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+            <Typography variant="h6">Generated Marketing Images</Typography>
+            <Stack direction="row" spacing={1} alignItems="center">
+              <FormControlLabel
+                control={<Checkbox checked={zipAllSizes} onChange={(e) => setZipAllSizes(e.target.checked)} />}
+                label="Include every output size"
+              />
+              <Button
+                variant="contained"
+                startIcon={<ArchiveIcon />}
+                onClick={handleDownloadAll}
+                disabled={loading}
+              >
+                Download all
+              </Button>
+            </Stack>
+          </Box>
           <Grid container spacing={2}>
-            {Object.entries(marketingImages).map(([fileName, imageUrl]) => (
-              <Grid item xs={12} md={6} key={fileName}>
+            {Object.entries(marketingImages).flatMap(([pdfId, images]) => images.map((image) => (
+              <Grid item xs={12} md={6} key={`${pdfId}-${image.presetId}`}>
                 <Paper sx={{ p: 2 }}>
-                  <Typography variant="subtitle1" gutterBottom>
-                    {fileName}
+                  <Typography variant="subtitle1">
+                    {sourceName(pdfId)}
+                  </Typography>
+                  <Typography variant="body2" color="text.secondary" gutterBottom>
+                    {getOutputPresetName(image.presetId)} · {image.width}×{image.height} · {getFormatInfo(image.format).label}
+                    {image.quality !== null && ` ${image.quality}%`} · {Math.ceil(image.bytes / 1024)} KB
                   </Typography>
+                  {image.overBudget && (
+                    <Alert severity="warning" sx={{ mb: 1 }}>
+                      Could not fit under {image.maxSizeKB} KB even at the lowest quality.
+                    </Alert>
+                  )}
                   <img 
-                    src={imageUrl} 
-                    alt={`Marketing for ${fileName}`}
+                    src={image.imageUrl} 
+                    alt={`Marketing for ${sourceName(pdfId)}`}
                     style={{ width: '100%', borderRadius: 8, marginBottom: 16 }} 
                   />
                   <Button 
                     variant="contained" 
-                    onClick={() => handleDownload(fileName)}
+                    onClick={() => handleDownload(pdfId, image.presetId)}
                     fullWidth
                   >
                     Download
                   </Button>
                 </Paper>
               </Grid>
-            ))}
+            )))}
           </Grid>
         </Stack>
       )}
+
+      <PasswordDialog
+        fileName={passwordRequest?.fileName ?? null}
+        reason={passwordRequest?.reason ?? 'required'}
+        onSubmit={(password) => passwordRequest?.resolve(password)}
+        onCancel={() => passwordRequest?.resolve(null)}
+      />
+
+      <UpdatePrompt />
     </Container>
   );
 }
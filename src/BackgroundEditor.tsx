@@ -0,0 +1,198 @@
+import React from 'react';
+import {
+  Box, Button, FormControl, Grid, IconButton, InputLabel, MenuItem, Select, Slider, Stack, TextField, Typography
+} from '@mui/material';
+import AddIcon from '@mui/icons-material/Add';
+import RemoveIcon from '@mui/icons-material/Remove';
+import {
+  BACKGROUND_FITS, BACKGROUND_KINDS, BackgroundFit, BackgroundKind, BackgroundStyle
+} from './backgroundStyle.ts';
+
+interface BackgroundEditorProps {
+  style: BackgroundStyle;
+  onChange: (changes: Partial<BackgroundStyle>) => void;
+}
+
+type NumericStyleKey = 'gradientAngle' | 'focusX' | 'focusY' | 'zoom' | 'blur' | 'tintOpacity' | 'vignette';
+
+interface SliderConfig {
+  key: NumericStyleKey;
+  label: string;
+  min: number;
+  max: number;
+  step?: number;
+  // Fractions are shown to the user as percentages
+  percent?: boolean;
+}
+
+const MAX_GRADIENT_STOPS = 5;
+const COVER_PAGE_BLUR = 24;
+
+const FOCAL_SLIDERS: SliderConfig[] = [
+  { key: 'focusX', label: 'Focus Left/Right', min: 0, max: 100, percent: true },
+  { key: 'focusY', label: 'Focus Top/Bottom', min: 0, max: 100, percent: true }
+];
+
+const EFFECT_SLIDERS: SliderConfig[] = [
+  { key: 'blur', label: 'Blur', min: 0, max: 40 },
+  { key: 'tintOpacity', label: 'Tint Strength', min: 0, max: 90, percent: true },
+  { key: 'vignette', label: 'Vignette', min: 0, max: 100, percent: true }
+];
+
+function BackgroundEditor({ style, onChange }: BackgroundEditorProps) {
+  const renderSlider = ({ key, label, min, max, step = 1, percent }: SliderConfig) => (
+    <Grid item xs={12} sm={6} md={3} key={key}>
+      <Typography gutterBottom>{label}</Typography>
+      <Slider
+        value={percent ? Math.round(style[key] * 100) : style[key]}
+        min={min}
+        max={max}
+        step={step}
+        onChange={(_, value) => onChange({ [key]: percent ? (value as number) / 100 : value as number })}
+        valueLabelDisplay="auto"
+        valueLabelFormat={(value) => (percent ? `${value}%` : value)}
+      />
+    </Grid>
+  );
+
+  const setStop = (index: number, color: string) => {
+    onChange({ gradientColors: style.gradientColors.map((existing, i) => (i === index ? color : existing)) });
+  };
+
+  const isGradient = style.kind === 'linear' || style.kind === 'radial';
+  // The cover page is placed just like an uploaded image
+  const hasImage = style.kind === 'image' || style.kind === 'cover-page';
+
+  const changeKind = (kind: BackgroundKind) => {
+    // A sharp cover page competes with the pages drawn over it
+    onChange(kind === 'cover-page' && style.blur === 0 ? { kind, blur: COVER_PAGE_BLUR } : { kind });
+  };
+
+  return (
+    <Grid container spacing={2} alignItems="center">
+      <Grid item xs={12} sm={6} md={3}>
+        <FormControl fullWidth size="small">
+          <InputLabel>Background Type</InputLabel>
+          <Select
+            value={style.kind}
+            onChange={(e) => changeKind(e.target.value as BackgroundKind)}
+            label="Background Type"
+          >
+            {BACKGROUND_KINDS.map(({ kind, label }) => (
+              <MenuItem key={kind} value={kind}>{label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+      </Grid>
+
+      {hasImage && (
+        <Grid item xs={12} sm={6} md={3}>
+          <FormControl fullWidth size="small">
+            <InputLabel>Fit</InputLabel>
+            <Select
+              value={style.fit}
+              onChange={(e) => onChange({ fit: e.target.value as BackgroundFit })}
+              label="Fit"
+            >
+              {BACKGROUND_FITS.map(({ fit, label }) => (
+                <MenuItem key={fit} value={fit}>{label}</MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        </Grid>
+      )}
+
+      {(style.kind === 'solid' || (hasImage && style.fit === 'contain')) && (
+        <Grid item xs={12} sm={6} md={3}>
+          <TextField
+            label={style.kind === 'solid' ? 'Colour' : 'Backdrop'}
+            type="color"
+            size="small"
+            value={style.color}
+            onChange={(e) => onChange({ color: e.target.value })}
+            sx={{ width: 90 }}
+          />
+        </Grid>
+      )}
+
+      {isGradient && (
+        <Grid item xs={12} md={6}>
+          <Stack direction="row" spacing={1} alignItems="center" useFlexGap flexWrap="wrap">
+            {style.gradientColors.map((color, i) => (
+              <Box key={i}>
+                <TextField
+                  label={`Stop ${i + 1}`}
+                  type="color"
+                  size="small"
+                  value={color}
+                  onChange={(e) => setStop(i, e.target.value)}
+                  sx={{ width: 80 }}
+                />
+              </Box>
+            ))}
+            <IconButton
+              size="small"
+              aria-label="Remove colour stop"
+              disabled={style.gradientColors.length <= 2}
+              onClick={() => onChange({ gradientColors: style.gradientColors.slice(0, -1) })}
+            >
+              <RemoveIcon />
+            </IconButton>
+            <IconButton
+              size="small"
+              aria-label="Add colour stop"
+              disabled={style.gradientColors.length >= MAX_GRADIENT_STOPS}
+              onClick={() => onChange({
+                gradientColors: [...style.gradientColors, style.gradientColors[style.gradientColors.length - 1]]
+              })}
+            >
+              <AddIcon />
+            </IconButton>
+            <Button
+              size="small"
+              onClick={() => onChange({ gradientColors: [...style.gradientColors].reverse() })}
+            >
+              Reverse
+            </Button>
+          </Stack>
+        </Grid>
+      )}
+
+      {(style.kind === 'palette' || style.kind === 'cover-page') && (
+        <Grid item xs={12} md={6}>
+          <Typography variant="body2" color="text.secondary">
+            {style.kind === 'palette'
+              ? 'Each PDF gets a gradient of its own dominant colours.'
+              : "Each PDF is set against its own first page, or its colours if that page can't be rendered."}
+          </Typography>
+        </Grid>
+      )}
+
+      {(style.kind === 'linear' || style.kind === 'palette') && renderSlider({
+        key: 'gradientAngle', label: 'Angle', min: 0, max: 360
+      })}
+      {hasImage && style.fit === 'focal' && FOCAL_SLIDERS.map(renderSlider)}
+      {hasImage && (style.fit === 'focal' || style.fit === 'tile') && renderSlider({
+        key: 'zoom',
+        label: style.fit === 'tile' ? 'Tile Size' : 'Zoom',
+        min: style.fit === 'tile' ? 0.1 : 1,
+        max: 4,
+        step: 0.05
+      })}
+
+      {EFFECT_SLIDERS.map(renderSlider)}
+      <Grid item xs={12} sm={6} md={3}>
+        <TextField
+          label="Tint"
+          type="color"
+          size="small"
+          value={style.tintColor}
+          onChange={(e) => onChange({ tintColor: e.target.value })}
+          sx={{ width: 90 }}
+        />
+      </Grid>
+    </Grid>
+  );
+}
+
+export default BackgroundEditor;
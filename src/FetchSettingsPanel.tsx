@@ -0,0 +1,70 @@
+import React from 'react';
+import {
+  Checkbox, FormControl, FormControlLabel, InputLabel, MenuItem, Select, Stack, TextField, Typography
+} from '@mui/material';
+import { FetchSettings, PROXY_MODES, ProxyMode } from './remoteFetch.ts';
+
+interface FetchSettingsPanelProps {
+  settings: FetchSettings;
+  onChange: (changes: Partial<FetchSettings>) => void;
+}
+
+function FetchSettingsPanel({ settings, onChange }: FetchSettingsPanelProps) {
+  return (
+    <Stack spacing={2}>
+      <Typography variant="subtitle2">Download settings</Typography>
+      <Stack direction="row" spacing={2} alignItems="center" useFlexGap flexWrap="wrap">
+        <FormControl sx={{ minWidth: 220 }} size="small">
+          <InputLabel>Proxy</InputLabel>
+          <Select
+            value={settings.proxyMode}
+            onChange={(e) => onChange({ proxyMode: e.target.value as ProxyMode })}
+            label="Proxy"
+          >
+            {PROXY_MODES.map(({ mode, label }) => (
+              <MenuItem key={mode} value={mode}>{label}</MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {settings.proxyMode === 'self-hosted' && (
+          <TextField
+            label="Proxy endpoint"
+            value={settings.proxyEndpoint}
+            onChange={(e) => onChange({ proxyEndpoint: e.target.value })}
+            helperText="Called with the target as ?url="
+            size="small"
+            sx={{ flexGrow: 1 }}
+          />
+        )}
+        {settings.proxyMode === 'template' && (
+          <TextField
+            label="Proxy URL template"
+            value={settings.proxyTemplate}
+            onChange={(e) => onChange({ proxyTemplate: e.target.value })}
+            placeholder="https://proxy.example.com/fetch?target={url}"
+            helperText="{url} is replaced with the encoded address"
+            size="small"
+            sx={{ flexGrow: 1 }}
+          />
+        )}
+      </Stack>
+      {settings.proxyMode !== 'none' && (
+        <FormControlLabel
+          control={
+            <Checkbox
+              checked={settings.proxyConsent}
+              onChange={(e) => onChange({ proxyConsent: e.target.checked })}
+            />
+          }
+          label="Send URLs to this proxy when a site blocks direct downloads"
+        />
+      )}
+      <Typography variant="body2" color="text.secondary">
+        URLs are downloaded directly by your browser. A proxy sees every address sent through it,
+        so only allow one you trust with unpublished documents.
+      </Typography>
+    </Stack>
+  );
+}
+
+export default FetchSettingsPanel;
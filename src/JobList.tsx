@@ -0,0 +1,87 @@
+import React from 'react';
+import { Box, Button, Chip, LinearProgress, Paper, Stack, Typography } from '@mui/material';
+import { Job, JobStatus } from './useJobQueue.ts';
+
+const STATUS_CHIPS: Record<JobStatus, { label: string; color: 'default' | 'primary' | 'success' | 'error' }> = {
+  queued: { label: 'Queued', color: 'default' },
+  running: { label: 'Working', color: 'primary' },
+  done: { label: 'Done', color: 'success' },
+  failed: { label: 'Failed', color: 'error' },
+  cancelled: { label: 'Cancelled', color: 'default' }
+};
+
+const isActive = (job: Job<unknown>) => job.status === 'queued' || job.status === 'running';
+
+interface JobListProps {
+  jobs: Job<unknown>[];
+  onCancel: (id: number) => void;
+  onCancelAll: () => void;
+  onRetry: (id: number) => void;
+  onDismiss: (id: number) => void;
+  onClearFinished: () => void;
+}
+
+function JobList({ jobs, onCancel, onCancelAll, onRetry, onDismiss, onClearFinished }: JobListProps) {
+  if (jobs.length === 0) return null;
+  const active = jobs.filter(isActive).length;
+
+  return (
+    <Paper sx={{ p: 2, my: 2 }}>
+      <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', mb: 1 }}>
+        <Typography variant="h6">
+          Processing {active > 0 && `(${active} remaining)`}
+        </Typography>
+        <Stack direction="row" spacing={1}>
+          <Button size="small" color="error" disabled={active === 0} onClick={onCancelAll}>
+            Cancel all
+          </Button>
+          <Button size="small" disabled={active === jobs.length} onClick={onClearFinished}>
+            Clear finished
+          </Button>
+        </Stack>
+      </Box>
+      <Stack spacing={1.5}>
+        {jobs.map((job) => {
+          const chip = STATUS_CHIPS[job.status];
+          return (
+            <Box key={job.id}>
+              <Stack direction="row" spacing={1} alignItems="center">
+                <Chip size="small" label={chip.label} color={chip.color} />
+                <Typography variant="body2" sx={{ flexGrow: 1, overflow: 'hidden', textOverflow: 'ellipsis' }} noWrap>
+                  {job.label}
+                </Typography>
+                <Typography variant="body2" color="text.secondary">
+                  {job.step}
+                </Typography>
+                {isActive(job) ? (
+                  <Button size="small" onClick={() => onCancel(job.id)}>Cancel</Button>
+                ) : (
+                  <>
+                    {(job.status === 'failed' || job.status === 'cancelled') && (
+                      <Button size="small" onClick={() => onRetry(job.id)}>Retry</Button>
+                    )}
+                    <Button size="small" color="inherit" onClick={() => onDismiss(job.id)}>Dismiss</Button>
+                  </>
+                )}
+              </Stack>
+              {job.status === 'running' && (
+                <LinearProgress
+                  variant={job.progress === null ? 'indeterminate' : 'determinate'}
+                  value={(job.progress ?? 0) * 100}
+                  sx={{ mt: 0.5 }}
+                />
+              )}
+              {job.error && (
+                <Typography variant="body2" color="error" sx={{ mt: 0.5 }}>
+                  {job.error}
+                </Typography>
+              )}
+            </Box>
+          );
+        })}
+      </Stack>
+    </Paper>
+  );
+}
+
+export default JobList;
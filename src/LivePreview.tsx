@@ -0,0 +1,251 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, Button, Stack, Typography } from '@mui/material';
+import FlipToFrontIcon from '@mui/icons-material/FlipToFront';
+import FlipToBackIcon from '@mui/icons-material/FlipToBack';
+import RestartAltIcon from '@mui/icons-material/RestartAlt';
+import { PDFFile } from './types.ts';
+import {
+  CanvasSize, IDENTITY_ADJUSTMENT, PagePlacement, SlotAdjustment, referenceScale
+} from './layoutTemplates.ts';
+import { Scene, drawScene } from './sceneRenderer.ts';
+
+interface LivePreviewProps {
+  pdfFile: PDFFile;
+  size: CanvasSize;
+  // Lay out the full composition for a PDF, leaving the drawing to the preview
+  compose: (pdfFile: PDFFile, size: CanvasSize) => Promise<{ scene: Scene; placements: PagePlacement[] }>;
+  onAdjust: (slot: number, adjustment: SlotAdjustment | null) => void;
+}
+
+type DragMode = 'move' | 'rotate' | 'scale';
+
+interface DragState {
+  mode: DragMode;
+  placement: PagePlacement;
+  startX: number;
+  startY: number;
+  x: number;
+  y: number;
+}
+
+const RENDER_DEBOUNCE_MS = 250;
+
+// Point relative to a placement's center, in the page's own (unrotated) axes
+const toLocal = (placement: PagePlacement, x: number, y: number) => {
+  const r = -placement.rotation * Math.PI / 180;
+  const dx = x - placement.x;
+  const dy = y - placement.y;
+  return { x: dx * Math.cos(r) - dy * Math.sin(r), y: dx * Math.sin(r) + dy * Math.cos(r) };
+};
+
+const fromLocal = (placement: PagePlacement, x: number, y: number) => {
+  const r = placement.rotation * Math.PI / 180;
+  return {
+    x: placement.x + x * Math.cos(r) - y * Math.sin(r),
+    y: placement.y + x * Math.sin(r) + y * Math.cos(r)
+  };
+};
+
+// Apply an in-progress drag to the placement it started from
+const draggedPlacement = (drag: DragState): PagePlacement => {
+  const { placement, mode, startX, startY, x, y } = drag;
+  if (mode === 'move') {
+    return { ...placement, x: placement.x + x - startX, y: placement.y + y - startY };
+  }
+  if (mode === 'rotate') {
+    const start = Math.atan2(startY - placement.y, startX - placement.x);
+    const current = Math.atan2(y - placement.y, x - placement.x);
+    return { ...placement, rotation: placement.rotation + (current - start) * 180 / Math.PI };
+  }
+  const factor = Math.hypot(x - placement.x, y - placement.y)
+    / Math.max(1, Math.hypot(startX - placement.x, startY - placement.y));
+  return { ...placement, width: placement.width * factor, height: placement.height * factor };
+};
+
+function LivePreview({ pdfFile, size, compose, onAdjust }: LivePreviewProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const svgRef = useRef<SVGSVGElement>(null);
+  const renderCount = useRef(0);
+  const [placements, setPlacements] = useState<PagePlacement[]>([]);
+  const [selectedSlot, setSelectedSlot] = useState<number | null>(null);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [rendering, setRendering] = useState(false);
+
+  // Re-render shortly after the last settings change rather than on every keystroke or slider tick
+  const { width, height } = size;
+  useEffect(() => {
+    const renderId = ++renderCount.current;
+    const timer = setTimeout(async () => {
+      setRendering(true);
+      try {
+        const { scene, placements: result } = await compose(pdfFile, { width, height });
+        // A slower, older render can finish after a newer one; only the latest may draw
+        const canvas = canvasRef.current;
+        if (renderId !== renderCount.current || !canvas) return;
+        drawScene(canvas, scene);
+        setPlacements(result);
+      } catch (error) {
+        console.error('Failed to render live preview:', error);
+      } finally {
+        if (renderId === renderCount.current) setRendering(false);
+      }
+    }, RENDER_DEBOUNCE_MS);
+    return () => clearTimeout(timer);
+  }, [pdfFile, width, height, compose]);
+
+  const handleSize = size.width / 80;
+  const selected = placements.find(p => p.slot === selectedSlot) ?? null;
+  const shown = drag ? draggedPlacement(drag) : selected;
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * size.width / rect.width,
+      y: (e.clientY - rect.top) * size.height / rect.height
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    const { x, y } = pointerPosition(e);
+
+    // Handles of the selected page win over whatever is underneath them
+    if (selected) {
+      const local = toLocal(selected, x, y);
+      const nearRotate = Math.hypot(local.x, local.y + selected.height / 2 + handleSize * 3) <= handleSize * 1.5;
+      const nearScale = Math.hypot(local.x - selected.width / 2, local.y - selected.height / 2) <= handleSize * 1.5;
+      if (nearRotate || nearScale) {
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDrag({ mode: nearRotate ? 'rotate' : 'scale', placement: selected, startX: x, startY: y, x, y });
+        return;
+      }
+    }
+
+    const hit = [...placements]
+      .sort((a, b) => b.zIndex - a.zIndex)
+      .find(p => {
+        const local = toLocal(p, x, y);
+        return Math.abs(local.x) <= p.width / 2 && Math.abs(local.y) <= p.height / 2;
+      });
+    setSelectedSlot(hit ? hit.slot : null);
+    if (hit) {
+      e.currentTarget.setPointerCapture(e.pointerId);
+      setDrag({ mode: 'move', placement: hit, startX: x, startY: y, x, y });
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (!drag) return;
+    const { x, y } = pointerPosition(e);
+    setDrag({ ...drag, x, y });
+  };
+
+  const currentAdjustment = (slot: number): SlotAdjustment =>
+    pdfFile.settings.slotAdjustments[slot] ?? IDENTITY_ADJUSTMENT;
+
+  // Fold the finished drag into the slot's adjustment, converting back to reference canvas units
+  const handlePointerUp = () => {
+    if (!drag) return;
+    const before = drag.placement;
+    const after = draggedPlacement(drag);
+    setDrag(null);
+    if (before.x === after.x && before.y === after.y && before.rotation === after.rotation && before.width === after.width) {
+      return;
+    }
+    const scale = referenceScale(size);
+    const adjustment = currentAdjustment(before.slot);
+    onAdjust(before.slot, {
+      ...adjustment,
+      dx: adjustment.dx + (after.x - before.x) / scale,
+      dy: adjustment.dy + (after.y - before.y) / scale,
+      rotation: adjustment.rotation + after.rotation - before.rotation,
+      scale: adjustment.scale * after.width / before.width
+    });
+  };
+
+  const restack = (toFront: boolean) => {
+    if (!selected) return;
+    const others = placements.filter(p => p.slot !== selected.slot).map(p => p.zIndex);
+    if (others.length === 0) return;
+    const target = toFront ? Math.max(...others) + 1 : Math.min(...others) - 1;
+    const adjustment = currentAdjustment(selected.slot);
+    onAdjust(selected.slot, { ...adjustment, zOffset: adjustment.zOffset + target - selected.zIndex });
+  };
+
+  const rotateHandle = shown ? fromLocal(shown, 0, -shown.height / 2 - handleSize * 3) : null;
+  const scaleHandle = shown ? fromLocal(shown, shown.width / 2, shown.height / 2) : null;
+
+  return (
+    <Box>
+      <Box sx={{ position: 'relative', width: '100%', lineHeight: 0, opacity: rendering ? 0.8 : 1 }}>
+        <canvas ref={canvasRef} style={{ width: '100%', borderRadius: 8 }} />
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${size.width} ${size.height}`}
+          style={{ position: 'absolute', inset: 0, width: '100%', height: '100%', cursor: drag ? 'grabbing' : 'pointer', touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={() => setDrag(null)}
+        >
+          {shown && rotateHandle && scaleHandle && (
+            <>
+              <g transform={`translate(${shown.x} ${shown.y}) rotate(${shown.rotation})`}>
+                <rect
+                  x={-shown.width / 2}
+                  y={-shown.height / 2}
+                  width={shown.width}
+                  height={shown.height}
+                  fill="none"
+                  stroke="#1976d2"
+                  strokeWidth={handleSize / 4}
+                  strokeDasharray={`${handleSize} ${handleSize / 2}`}
+                />
+                <line
+                  x1={0}
+                  y1={-shown.height / 2}
+                  x2={0}
+                  y2={-shown.height / 2 - handleSize * 3}
+                  stroke="#1976d2"
+                  strokeWidth={handleSize / 4}
+                />
+              </g>
+              <circle cx={rotateHandle.x} cy={rotateHandle.y} r={handleSize} fill="#ffffff" stroke="#1976d2" strokeWidth={handleSize / 4} />
+              <rect
+                x={scaleHandle.x - handleSize}
+                y={scaleHandle.y - handleSize}
+                width={handleSize * 2}
+                height={handleSize * 2}
+                fill="#ffffff"
+                stroke="#1976d2"
+                strokeWidth={handleSize / 4}
+              />
+            </>
+          )}
+        </svg>
+      </Box>
+      <Stack direction="row" spacing={1} alignItems="center" sx={{ mt: 1 }} useFlexGap flexWrap="wrap">
+        <Typography variant="body2" color="text.secondary" sx={{ flex: 1 }}>
+          {selected
+            ? 'Drag to move, use the round handle to rotate and the square handle to resize.'
+            : 'Click a page in the preview to adjust it.'}
+        </Typography>
+        <Button size="small" startIcon={<FlipToFrontIcon />} disabled={!selected} onClick={() => restack(true)}>
+          Bring to front
+        </Button>
+        <Button size="small" startIcon={<FlipToBackIcon />} disabled={!selected} onClick={() => restack(false)}>
+          Send to back
+        </Button>
+        <Button
+          size="small"
+          startIcon={<RestartAltIcon />}
+          disabled={!selected || !pdfFile.settings.slotAdjustments[selected.slot]}
+          onClick={() => selected && onAdjust(selected.slot, null)}
+        >
+          Reset page
+        </Button>
+      </Stack>
+    </Box>
+  );
+}
+
+export default LivePreview;
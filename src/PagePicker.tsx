@@ -0,0 +1,315 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box, Button, ButtonBase, InputAdornment, Skeleton, Stack, TextField, Typography
+} from '@mui/material';
+import SearchIcon from '@mui/icons-material/Search';
+import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
+import BrokenImageIcon from '@mui/icons-material/BrokenImage';
+import { PDFPage } from './types.ts';
+import { LayoutSlot } from './layoutTemplates.ts';
+import { displayScore } from './pageScoring.ts';
+
+interface PagePickerProps {
+  pages: PDFPage[];
+  slots: LayoutSlot[];
+  selectedPages: (number | null)[];
+  onSelect: (slot: number, pageNum: number) => void;
+  // Replace the selection with the best scoring pages
+  onResuggest: () => void;
+}
+
+const PAGE_DRAG_TYPE = 'application/x-pdf-page';
+const THUMBNAIL_MIN_WIDTH = 96;
+
+// Short marker for a slot shown on the thumbnails it uses ("L", "C", "R", "1"...)
+const slotMarker = (slot: LayoutSlot) => slot.label.split(/\s+/).map(word => word[0]).join('').toUpperCase();
+
+function Thumbnail({ page, height }: { page: PDFPage | undefined; height: number }) {
+  if (page?.error) {
+    return (
+      <Box
+        title={page.error}
+        sx={{
+          width: '100%',
+          height,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          borderRadius: 1,
+          bgcolor: 'grey.100',
+          color: 'text.disabled'
+        }}
+      >
+        <BrokenImageIcon />
+      </Box>
+    );
+  }
+  if (!page?.thumbnailUrl) {
+    return <Skeleton variant="rectangular" sx={{ width: '100%', height, borderRadius: 1 }} />;
+  }
+  return (
+    <Box
+      component="img"
+      src={page.thumbnailUrl}
+      alt={`Page ${page.pageNum}`}
+      draggable={false}
+      sx={{ width: '100%', height, objectFit: 'contain', borderRadius: 1, bgcolor: 'grey.100' }}
+    />
+  );
+}
+
+function PagePicker({ pages, slots, selectedPages, onSelect, onResuggest }: PagePickerProps) {
+  const gridRef = useRef<HTMLDivElement>(null);
+  const thumbnailRefs = useRef(new Map<number, HTMLButtonElement>());
+  const [activeSlot, setActiveSlot] = useState(0);
+  const [focusedPage, setFocusedPage] = useState(selectedPages[0] ?? 1);
+  const [query, setQuery] = useState('');
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+
+  // Template changes can remove the slot we were filling
+  useEffect(() => {
+    if (activeSlot >= slots.length) setActiveSlot(0);
+  }, [activeSlot, slots.length]);
+
+  const trimmedQuery = query.trim();
+  const visiblePages = trimmedQuery
+    ? pages.filter(page => String(page.pageNum).includes(trimmedQuery))
+    : pages;
+
+  const assign = (slot: number, pageNum: number) => {
+    onSelect(slot, pageNum);
+    // Move on to the next slot so a whole layout can be filled with successive clicks
+    setActiveSlot((slot + 1) % slots.length);
+  };
+
+  const focusPage = (pageNum: number) => {
+    setFocusedPage(pageNum);
+    thumbnailRefs.current.get(pageNum)?.focus();
+  };
+
+  const columnCount = () => {
+    const grid = gridRef.current;
+    if (!grid) return 1;
+    return Math.max(1, window.getComputedStyle(grid).gridTemplateColumns.split(' ').length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent, pageNum: number) => {
+    const position = visiblePages.findIndex(page => page.pageNum === pageNum);
+    const steps: Record<string, number> = {
+      ArrowLeft: -1,
+      ArrowRight: 1,
+      ArrowUp: -columnCount(),
+      ArrowDown: columnCount(),
+      Home: -position,
+      End: visiblePages.length - 1 - position
+    };
+    if (e.key in steps) {
+      e.preventDefault();
+      const next = visiblePages[Math.min(visiblePages.length - 1, Math.max(0, position + steps[e.key]))];
+      if (next) focusPage(next.pageNum);
+      return;
+    }
+    // Number keys pick the slot the next page goes into
+    const slotKey = Number(e.key);
+    if (Number.isInteger(slotKey) && slotKey >= 1 && slotKey <= slots.length) {
+      e.preventDefault();
+      setActiveSlot(slotKey - 1);
+    }
+  };
+
+  const handleSearchKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && visiblePages.length > 0) {
+      e.preventDefault();
+      const exact = visiblePages.find(page => String(page.pageNum) === trimmedQuery);
+      focusPage((exact ?? visiblePages[0]).pageNum);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, slot: number) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const pageNum = Number(e.dataTransfer.getData(PAGE_DRAG_TYPE));
+    if (pageNum) assign(slot, pageNum);
+  };
+
+  // Keep the roving tab stop on a page that is actually shown
+  const tabStop = visiblePages.some(page => page.pageNum === focusedPage)
+    ? focusedPage
+    : visiblePages[0]?.pageNum;
+
+  return (
+    <Box>
+      {/* Layout slots: click to choose which one to fill, or drop a page on it */}
+      <Stack direction="row" spacing={1.5} useFlexGap flexWrap="wrap" sx={{ mb: 2 }}>
+        {slots.map((slot, slotIndex) => {
+          const pageNum = selectedPages[slotIndex];
+          const active = slotIndex === activeSlot;
+          return (
+            <ButtonBase
+              key={slotIndex}
+              onClick={() => setActiveSlot(slotIndex)}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(slotIndex);
+              }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => handleDrop(e, slotIndex)}
+              aria-pressed={active}
+              aria-label={`${slot.label} slot${pageNum ? `, page ${pageNum}` : ''}`}
+              sx={{
+                flexDirection: 'column',
+                width: 104,
+                p: 1,
+                borderRadius: 1,
+                border: 2,
+                borderStyle: dropTarget === slotIndex ? 'dashed' : 'solid',
+                borderColor: active || dropTarget === slotIndex ? 'primary.main' : 'divider',
+                bgcolor: active ? 'action.selected' : 'transparent'
+              }}
+            >
+              <Typography variant="caption" sx={{ fontWeight: active ? 600 : 400 }}>
+                {slotIndex + 1}. {slot.label}
+              </Typography>
+              {pageNum ? (
+                <>
+                  <Thumbnail page={pages.find(page => page.pageNum === pageNum)} height={96} />
+                  <Typography variant="caption" color="text.secondary">Page {pageNum}</Typography>
+                </>
+              ) : (
+                <Box sx={{ height: 96, display: 'flex', alignItems: 'center' }}>
+                  <Typography variant="caption" color="text.secondary">Empty</Typography>
+                </Box>
+              )}
+            </ButtonBase>
+          );
+        })}
+      </Stack>
+
+      <Stack direction="row" spacing={2} alignItems="center" sx={{ mb: 1 }}>
+        <TextField
+          size="small"
+          placeholder="Page number"
+          value={query}
+          onChange={(e) => setQuery(e.target.value.replace(/\D/g, ''))}
+          onKeyDown={handleSearchKeyDown}
+          inputProps={{ inputMode: 'numeric', 'aria-label': 'Search pages by number' }}
+          InputProps={{
+            startAdornment: (
+              <InputAdornment position="start">
+                <SearchIcon fontSize="small" />
+              </InputAdornment>
+            )
+          }}
+          sx={{ width: 180 }}
+        />
+        <Button
+          size="small"
+          startIcon={<AutoAwesomeIcon />}
+          onClick={onResuggest}
+          disabled={pages.some(page => page.score === null && !page.error)}
+          sx={{ flexShrink: 0 }}
+        >
+          Suggest best pages
+        </Button>
+        <Typography variant="body2" color="text.secondary">
+          Click a page to place it in the {slots[activeSlot]?.label ?? ''} slot, or drag it onto any slot.
+          Arrow keys move between pages, number keys pick a slot.
+        </Typography>
+      </Stack>
+
+      <Box
+        ref={gridRef}
+        role="listbox"
+        aria-label="Pages"
+        sx={{
+          display: 'grid',
+          gridTemplateColumns: `repeat(auto-fill, minmax(${THUMBNAIL_MIN_WIDTH}px, 1fr))`,
+          gap: 1,
+          maxHeight: 360,
+          overflowY: 'auto',
+          p: 0.5
+        }}
+      >
+        {visiblePages.map(page => {
+          const filledSlots = slots.filter((_, slotIndex) => selectedPages[slotIndex] === page.pageNum);
+          return (
+            <ButtonBase
+              key={page.pageNum}
+              ref={(element: HTMLButtonElement | null) => {
+                if (element) {
+                  thumbnailRefs.current.set(page.pageNum, element);
+                } else {
+                  thumbnailRefs.current.delete(page.pageNum);
+                }
+              }}
+              role="option"
+              aria-selected={filledSlots.length > 0}
+              aria-label={`Page ${page.pageNum}`}
+              tabIndex={page.pageNum === tabStop ? 0 : -1}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(PAGE_DRAG_TYPE, String(page.pageNum));
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+              onFocus={() => setFocusedPage(page.pageNum)}
+              onClick={() => assign(activeSlot, page.pageNum)}
+              onKeyDown={(e) => handleKeyDown(e, page.pageNum)}
+              sx={{
+                position: 'relative',
+                flexDirection: 'column',
+                p: 0.5,
+                borderRadius: 1,
+                border: 2,
+                borderColor: filledSlots.length > 0 ? 'primary.main' : 'transparent',
+                '&.Mui-focusVisible': { outline: '2px solid', outlineColor: 'secondary.main' }
+              }}
+            >
+              <Thumbnail page={page} height={120} />
+              <Typography variant="caption">{page.pageNum}</Typography>
+              {page.score !== null && (
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    bottom: 24,
+                    left: 6,
+                    px: 0.5,
+                    borderRadius: 1,
+                    bgcolor: 'rgba(0, 0, 0, 0.6)',
+                    color: '#ffffff',
+                    fontSize: 10
+                  }}
+                  title="How visually interesting this page is, out of 100"
+                >
+                  {displayScore(page.score)}
+                </Box>
+              )}
+              {filledSlots.length > 0 && (
+                <Box
+                  sx={{
+                    position: 'absolute',
+                    top: 4,
+                    right: 4,
+                    px: 0.75,
+                    borderRadius: 1,
+                    bgcolor: 'primary.main',
+                    color: 'primary.contrastText',
+                    fontSize: 11,
+                    fontWeight: 600
+                  }}
+                  title={filledSlots.map(slot => slot.label).join(', ')}
+                >
+                  {filledSlots.map(slotMarker).join(' ')}
+                </Box>
+              )}
+            </ButtonBase>
+          );
+        })}
+        {visiblePages.length === 0 && (
+          <Typography variant="body2" color="text.secondary">No page matches “{query}”.</Typography>
+        )}
+      </Box>
+    </Box>
+  );
+}
+
+export default PagePicker;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Box, Grid, Slider, Stack, TextField, Typography } from '@mui/material';
+import { PageStyle } from './pageStyle.ts';
+
+interface PageStyleEditorProps {
+  style: PageStyle;
+  onChange: (style: PageStyle) => void;
+}
+
+type NumericStyleKey = Exclude<keyof PageStyle, 'shadowColor' | 'borderColor'>;
+
+interface SliderConfig {
+  key: NumericStyleKey;
+  label: string;
+  min: number;
+  max: number;
+  // Fractions are shown to the user as percentages
+  percent?: boolean;
+}
+
+const SLIDERS: SliderConfig[] = [
+  { key: 'shadowBlur', label: 'Shadow Blur', min: 0, max: 80 },
+  { key: 'shadowOffsetX', label: 'Shadow Offset X', min: -50, max: 50 },
+  { key: 'shadowOffsetY', label: 'Shadow Offset Y', min: -50, max: 50 },
+  { key: 'shadowOpacity', label: 'Shadow Opacity', min: 0, max: 100, percent: true },
+  { key: 'borderWidth', label: 'Border Width', min: 0, max: 20 },
+  { key: 'cornerRadius', label: 'Corner Radius', min: 0, max: 60 },
+  { key: 'sheen', label: 'Sheen', min: 0, max: 100, percent: true }
+];
+
+function PageStyleEditor({ style, onChange }: PageStyleEditorProps) {
+  const update = (changes: Partial<PageStyle>) => onChange({ ...style, ...changes });
+
+  return (
+    <Grid container spacing={2}>
+      {SLIDERS.map(({ key, label, min, max, percent }) => (
+        <Grid item xs={12} sm={6} md={3} key={key}>
+          <Typography gutterBottom>{label}</Typography>
+          <Slider
+            value={percent ? style[key] * 100 : style[key]}
+            min={min}
+            max={max}
+            step={1}
+            onChange={(_, value) => update({ [key]: percent ? (value as number) / 100 : value as number })}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => (percent ? `${value}%` : value)}
+          />
+        </Grid>
+      ))}
+      <Grid item xs={12} sm={6} md={3}>
+        <Stack direction="row" spacing={2}>
+          <Box>
+            <TextField
+              label="Shadow"
+              type="color"
+              size="small"
+              value={style.shadowColor}
+              onChange={e => update({ shadowColor: e.target.value })}
+              sx={{ width: 90 }}
+            />
+          </Box>
+          <Box>
+            <TextField
+              label="Border"
+              type="color"
+              size="small"
+              value={style.borderColor}
+              onChange={e => update({ borderColor: e.target.value })}
+              sx={{ width: 90 }}
+            />
+          </Box>
+        </Stack>
+      </Grid>
+    </Grid>
+  );
+}
+
+export default PageStyleEditor;
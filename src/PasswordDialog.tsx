@@ -0,0 +1,58 @@
+import React, { useState } from 'react';
+import {
+  Button, Dialog, DialogActions, DialogContent, DialogContentText, DialogTitle, TextField
+} from '@mui/material';
+import { PasswordReason } from './pageRasterizer.ts';
+
+interface PasswordDialogProps {
+  // The PDF asking for a password; the dialog is closed while this is null
+  fileName: string | null;
+  reason: PasswordReason;
+  onSubmit: (password: string) => void;
+  onCancel: () => void;
+}
+
+function PasswordDialog({ fileName, reason, onSubmit, onCancel }: PasswordDialogProps) {
+  const [password, setPassword] = useState('');
+
+  // Start empty for the next prompt, including the retry after a wrong password
+  const cancel = () => {
+    setPassword('');
+    onCancel();
+  };
+
+  return (
+    <Dialog open={fileName !== null} onClose={cancel} maxWidth="xs" fullWidth>
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          setPassword('');
+          onSubmit(password);
+        }}
+      >
+        <DialogTitle>Password required</DialogTitle>
+        <DialogContent>
+          <DialogContentText sx={{ mb: 2 }}>
+            {fileName} is password protected. Enter its password to open it.
+          </DialogContentText>
+          <TextField
+            type="password"
+            label="Password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            error={reason === 'incorrect'}
+            helperText={reason === 'incorrect' ? 'That password is incorrect. Try again.' : ' '}
+            autoFocus
+            fullWidth
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={cancel}>Skip this file</Button>
+          <Button type="submit" variant="contained">Open</Button>
+        </DialogActions>
+      </form>
+    </Dialog>
+  );
+}
+
+export default PasswordDialog;
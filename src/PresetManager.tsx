@@ -0,0 +1,122 @@
+import React, { useRef, useState } from 'react';
+import {
+  Button, FormControl, InputLabel, MenuItem, Select, Stack, TextField, Typography
+} from '@mui/material';
+import SaveIcon from '@mui/icons-material/Save';
+import DeleteIcon from '@mui/icons-material/Delete';
+import FileUploadIcon from '@mui/icons-material/FileUpload';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import { StylePreset, serializePresets } from './stylePresets.ts';
+
+interface PresetManagerProps {
+  presets: StylePreset[];
+  activePresetId: string | null;
+  onApply: (preset: StylePreset) => void;
+  // Save the current style under a new name, or over an existing preset when `id` is given
+  onSave: (name: string, id: string | null) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+}
+
+function PresetManager({ presets, activePresetId, onApply, onSave, onDelete, onImport }: PresetManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [name, setName] = useState('');
+  const active = presets.find(preset => preset.id === activePresetId) ?? null;
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([serializePresets(presets)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'marketing-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleSaveNew = () => {
+    onSave(name.trim(), null);
+    setName('');
+  };
+
+  return (
+    <Stack spacing={2}>
+      <Stack direction="row" spacing={2} alignItems="center" useFlexGap flexWrap="wrap">
+        <FormControl sx={{ minWidth: 240 }}>
+          <InputLabel>House style</InputLabel>
+          <Select
+            value={active?.id ?? ''}
+            onChange={(e) => {
+              const preset = presets.find(p => p.id === e.target.value);
+              if (preset) onApply(preset);
+            }}
+            label="House style"
+            displayEmpty
+          >
+            {presets.length === 0 && (
+              <MenuItem value="" disabled>
+                No saved presets
+              </MenuItem>
+            )}
+            {presets.map((preset) => (
+              <MenuItem key={preset.id} value={preset.id}>
+                {preset.name}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <Button
+          startIcon={<SaveIcon />}
+          disabled={!active}
+          onClick={() => active && onSave(active.name, active.id)}
+        >
+          Update
+        </Button>
+        <Button
+          color="error"
+          startIcon={<DeleteIcon />}
+          disabled={!active}
+          onClick={() => active && onDelete(active.id)}
+        >
+          Delete
+        </Button>
+      </Stack>
+      <Stack direction="row" spacing={2} alignItems="center" useFlexGap flexWrap="wrap">
+        <TextField
+          label="New preset name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && name.trim()) handleSaveNew();
+          }}
+          size="small"
+          sx={{ width: 240 }}
+        />
+        <Button variant="outlined" startIcon={<SaveIcon />} disabled={!name.trim()} onClick={handleSaveNew}>
+          Save current style
+        </Button>
+        <Button startIcon={<FileDownloadIcon />} disabled={presets.length === 0} onClick={handleExport}>
+          Export JSON
+        </Button>
+        <Button startIcon={<FileUploadIcon />} onClick={() => fileInputRef.current?.click()}>
+          Import JSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="application/json,.json"
+          hidden
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = '';
+          }}
+        />
+      </Stack>
+      <Typography variant="body2" color="text.secondary">
+        A preset stores the background, logo and watermark, export format, and the layout and text styling
+        of the first uploaded PDF. Applying one restyles every PDF and is used for new uploads.
+      </Typography>
+    </Stack>
+  );
+}
+
+export default PresetManager;
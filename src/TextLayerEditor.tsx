@@ -0,0 +1,199 @@
+import React from 'react';
+import {
+  Accordion, AccordionSummary, AccordionDetails, Typography, Stack, TextField, Select,
+  MenuItem, FormControl, InputLabel, Checkbox, FormControlLabel, ToggleButton, ToggleButtonGroup, Box, Tooltip
+} from '@mui/material';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import FormatAlignLeftIcon from '@mui/icons-material/FormatAlignLeft';
+import FormatAlignCenterIcon from '@mui/icons-material/FormatAlignCenter';
+import FormatAlignRightIcon from '@mui/icons-material/FormatAlignRight';
+import {
+  FONT_FAMILIES, LAYER_ANCHORS, LayerAnchor, TEXT_LAYER_LABELS, TEXT_LAYER_LIMITS, TextBackground, TextLayer
+} from './textLayers.ts';
+
+interface TextLayerEditorProps {
+  layers: TextLayer[];
+  onChange: (layers: TextLayer[]) => void;
+  // The document's dominant colours, offered as one-click text colours
+  palette?: string[];
+}
+
+const FONT_WEIGHTS = [300, 400, 500, 700, 900];
+
+function TextLayerEditor({ layers, onChange, palette = [] }: TextLayerEditorProps) {
+  const updateLayer = (index: number, changes: Partial<TextLayer>) => {
+    onChange(layers.map((layer, i) => (i === index ? { ...layer, ...changes } : layer)));
+  };
+
+  const updateBackground = (index: number, changes: Partial<TextBackground>) => {
+    updateLayer(index, { background: { ...layers[index].background, ...changes } });
+  };
+
+  const numberField = (index: number, label: string, key: keyof typeof TEXT_LAYER_LIMITS) => {
+    const [min, max] = TEXT_LAYER_LIMITS[key];
+    const value = layers[index][key];
+    return (
+      <TextField
+        label={label}
+        type="number"
+        size="small"
+        value={value}
+        onChange={e => {
+          const val = Number(e.target.value);
+          if (!isNaN(val)) updateLayer(index, { [key]: val });
+        }}
+        // Typing can pass the limits on the way to a value; pull it back when the field is left
+        onBlur={() => {
+          if (value < min || value > max) updateLayer(index, { [key]: Math.min(max, Math.max(min, value)) });
+        }}
+        inputProps={{ min, max, step: 1 }}
+        sx={{ width: 110 }}
+      />
+    );
+  };
+
+  return (
+    <>
+      {layers.map((layer, index) => (
+        <Accordion key={layer.kind} disableGutters>
+          <AccordionSummary expandIcon={<ExpandMoreIcon />}>
+            <FormControlLabel
+              onClick={e => e.stopPropagation()}
+              control={
+                <Checkbox
+                  checked={layer.enabled}
+                  onChange={e => updateLayer(index, { enabled: e.target.checked })}
+                />
+              }
+              label={TEXT_LAYER_LABELS[layer.kind]}
+            />
+            <Typography color="text.secondary" sx={{ alignSelf: 'center' }} noWrap>
+              {layer.text}
+            </Typography>
+          </AccordionSummary>
+          <AccordionDetails>
+            <Stack spacing={2}>
+              <TextField
+                label="Text"
+                value={layer.text}
+                onChange={e => updateLayer(index, { text: e.target.value })}
+                multiline
+                fullWidth
+              />
+              <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap" alignItems="center">
+                <FormControl size="small" sx={{ minWidth: 200 }}>
+                  <InputLabel>Font</InputLabel>
+                  <Select
+                    value={layer.fontFamily}
+                    onChange={e => updateLayer(index, { fontFamily: e.target.value })}
+                    label="Font"
+                  >
+                    {FONT_FAMILIES.map(family => (
+                      <MenuItem key={family} value={family} sx={{ fontFamily: family }}>
+                        {family.split(',')[0].replace(/"/g, '')}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                {numberField(index, 'Size', 'fontSize')}
+                <FormControl size="small" sx={{ minWidth: 100 }}>
+                  <InputLabel>Weight</InputLabel>
+                  <Select
+                    value={layer.fontWeight}
+                    onChange={e => updateLayer(index, { fontWeight: Number(e.target.value) })}
+                    label="Weight"
+                  >
+                    {FONT_WEIGHTS.map(weight => (
+                      <MenuItem key={weight} value={weight}>{weight}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                <TextField
+                  label="Colour"
+                  type="color"
+                  size="small"
+                  value={layer.color}
+                  onChange={e => updateLayer(index, { color: e.target.value })}
+                  sx={{ width: 90 }}
+                />
+                {palette.length > 0 && (
+                  <Stack direction="row" spacing={0.5} aria-label="Document colours">
+                    {palette.map(color => (
+                      <Tooltip key={color} title={color}>
+                        <Box
+                          component="button"
+                          type="button"
+                          aria-label={`Use ${color}`}
+                          onClick={() => updateLayer(index, { color })}
+                          sx={{
+                            width: 24,
+                            height: 24,
+                            p: 0,
+                            cursor: 'pointer',
+                            bgcolor: color,
+                            borderRadius: '50%',
+                            border: 2,
+                            borderColor: layer.color.toLowerCase() === color ? 'primary.main' : 'divider'
+                          }}
+                        />
+                      </Tooltip>
+                    ))}
+                  </Stack>
+                )}
+                <ToggleButtonGroup
+                  exclusive
+                  size="small"
+                  value={layer.align}
+                  onChange={(_, align) => align && updateLayer(index, { align })}
+                >
+                  <ToggleButton value="left"><FormatAlignLeftIcon /></ToggleButton>
+                  <ToggleButton value="center"><FormatAlignCenterIcon /></ToggleButton>
+                  <ToggleButton value="right"><FormatAlignRightIcon /></ToggleButton>
+                </ToggleButtonGroup>
+              </Stack>
+              <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap" alignItems="center">
+                <FormControl size="small" sx={{ minWidth: 150 }}>
+                  <InputLabel>Position</InputLabel>
+                  <Select
+                    value={layer.anchor}
+                    onChange={e => updateLayer(index, { anchor: e.target.value as LayerAnchor })}
+                    label="Position"
+                  >
+                    {LAYER_ANCHORS.map(anchor => (
+                      <MenuItem key={anchor} value={anchor}>{anchor}</MenuItem>
+                    ))}
+                  </Select>
+                </FormControl>
+                {numberField(index, 'Offset X', 'offsetX')}
+                {numberField(index, 'Offset Y', 'offsetY')}
+                {numberField(index, 'Max width', 'maxWidth')}
+              </Stack>
+              <Stack direction="row" spacing={2} useFlexGap flexWrap="wrap" alignItems="center">
+                <FormControlLabel
+                  control={
+                    <Checkbox
+                      checked={layer.background.enabled}
+                      onChange={e => updateBackground(index, { enabled: e.target.checked })}
+                    />
+                  }
+                  label="Background pill"
+                />
+                <TextField
+                  label="Pill colour"
+                  type="color"
+                  size="small"
+                  value={layer.background.color}
+                  onChange={e => updateBackground(index, { color: e.target.value })}
+                  disabled={!layer.background.enabled}
+                  sx={{ width: 90 }}
+                />
+              </Stack>
+            </Stack>
+          </AccordionDetails>
+        </Accordion>
+      ))}
+    </>
+  );
+}
+
+export default TextLayerEditor;
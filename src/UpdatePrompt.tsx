@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { Button, Snackbar } from '@mui/material';
+
+// Dispatched on window from index.tsx by the service worker registration callbacks
+export const SERVICE_WORKER_UPDATE_EVENT = 'service-worker-update';
+export const SERVICE_WORKER_READY_EVENT = 'service-worker-ready';
+
+function UpdatePrompt() {
+  const [waiting, setWaiting] = useState<ServiceWorker | null>(null);
+  const [offlineReady, setOfflineReady] = useState(false);
+
+  useEffect(() => {
+    const handleUpdate = (event: Event) => {
+      const registration = (event as CustomEvent<ServiceWorkerRegistration>).detail;
+      setWaiting(registration.waiting);
+    };
+    const handleReady = () => setOfflineReady(true);
+    window.addEventListener(SERVICE_WORKER_UPDATE_EVENT, handleUpdate);
+    window.addEventListener(SERVICE_WORKER_READY_EVENT, handleReady);
+    return () => {
+      window.removeEventListener(SERVICE_WORKER_UPDATE_EVENT, handleUpdate);
+      window.removeEventListener(SERVICE_WORKER_READY_EVENT, handleReady);
+    };
+  }, []);
+
+  // Activate the new service worker, then reload once it has taken control
+  const applyUpdate = () => {
+    if (!waiting) return;
+    navigator.serviceWorker.addEventListener('controllerchange', () => window.location.reload(), { once: true });
+    waiting.postMessage({ type: 'SKIP_WAITING' });
+  };
+
+  return (
+    <>
+      <Snackbar
+        open={waiting !== null}
+        message="A new version of the app is available."
+        action={
+          <>
+            <Button color="primary" size="small" onClick={applyUpdate}>
+              Reload
+            </Button>
+            <Button color="inherit" size="small" onClick={() => setWaiting(null)}>
+              Later
+            </Button>
+          </>
+        }
+      />
+      <Snackbar
+        open={offlineReady}
+        autoHideDuration={6000}
+        onClose={() => setOfflineReady(false)}
+        message="The app is ready to work offline."
+      />
+    </>
+  );
+}
+
+export default UpdatePrompt;
@@ -0,0 +1,28 @@
+import { DEFAULT_BACKGROUND_STYLE, fitImage, gradientLine } from './backgroundStyle.ts';
+
+const box = { x: 0, y: 0, width: 1600, height: 900 };
+const image = { width: 1000, height: 1000 };
+
+test('fit modes place the image over the canvas', () => {
+  const place = (changes: object) => fitImage({ ...DEFAULT_BACKGROUND_STYLE, ...changes }, image, box, 1);
+  expect(place({ fit: 'cover' })).toEqual({ x: 0, y: -350, width: 1600, height: 1600 });
+  expect(place({ fit: 'contain' })).toEqual({ x: 350, y: 0, width: 900, height: 900 });
+  expect(place({ fit: 'stretch' })).toEqual(box);
+  expect(fitImage({ ...DEFAULT_BACKGROUND_STYLE, fit: 'tile', zoom: 0.5 }, image, box, 2))
+    .toEqual({ x: 0, y: 0, width: 1000, height: 1000 });
+});
+
+test('the focal point stays in view without exposing the edges', () => {
+  const place = (changes: object) => fitImage({ ...DEFAULT_BACKGROUND_STYLE, fit: 'focal', ...changes }, image, box, 1);
+  // Near the top: the image slides down as far as its top edge allows
+  expect(place({ focusY: 0.1 })).toEqual({ x: 0, y: 0, width: 1600, height: 1600 });
+  // Zoomed in on the right-hand side
+  expect(place({ focusX: 0.75, zoom: 2 })).toEqual({ x: -1600, y: -1150, width: 3200, height: 3200 });
+});
+
+test('linear gradients run through the centre to the far corners', () => {
+  expect(gradientLine(0, box)).toEqual({ x0: 0, y0: 450, x1: 1600, y1: 450 });
+  const diagonal = gradientLine(90, { x: 0, y: 0, width: 100, height: 50 });
+  expect(diagonal.y0).toBeCloseTo(0);
+  expect(diagonal.y1).toBeCloseTo(50);
+});
@@ -0,0 +1,251 @@
+import { CanvasSize } from './layoutTemplates.ts';
+import { hexToRgba } from './canvasUtils.ts';
+import { PaletteColor, paletteGradient } from './colorPalette.ts';
+
+// 'palette' and 'cover-page' are taken from each PDF when its images are composed
+export type BackgroundKind = 'image' | 'solid' | 'linear' | 'radial' | 'palette' | 'cover-page';
+export type BackgroundFit = 'cover' | 'contain' | 'tile' | 'stretch' | 'focal';
+
+export interface BackgroundStyle {
+  kind: BackgroundKind;
+  // Solid fill, and what shows around an image fitted with 'contain'
+  color: string;
+  // Evenly spaced gradient stops, first to last
+  gradientColors: string[];
+  // Degrees clockwise from left-to-right, for linear and document colour gradients
+  gradientAngle: number;
+  fit: BackgroundFit;
+  // 0-1 point of the image kept in view by the focal fit
+  focusX: number;
+  focusY: number;
+  // Focal fit magnification, where 1 just covers the canvas; also scales tiles
+  zoom: number;
+  // Reference canvas pixels
+  blur: number;
+  tintColor: string;
+  tintOpacity: number;
+  // 0-1 darkening towards the corners
+  vignette: number;
+}
+
+export const BACKGROUND_KINDS: { kind: BackgroundKind; label: string }[] = [
+  { kind: 'image', label: 'Image' },
+  { kind: 'solid', label: 'Solid colour' },
+  { kind: 'linear', label: 'Linear gradient' },
+  { kind: 'radial', label: 'Radial gradient' },
+  { kind: 'palette', label: 'Document colours' },
+  { kind: 'cover-page', label: 'Blurred cover page' }
+];
+
+// Gradient stops taken from a document's palette
+const PALETTE_STOPS = 3;
+
+// Anything drawImage accepts that knows its own size
+export type BackgroundImage = CanvasImageSource & { width: number; height: number };
+
+export const BACKGROUND_FITS: { fit: BackgroundFit; label: string }[] = [
+  { fit: 'cover', label: 'Cover' },
+  { fit: 'contain', label: 'Contain' },
+  { fit: 'tile', label: 'Tile' },
+  { fit: 'stretch', label: 'Stretch' },
+  { fit: 'focal', label: 'Focal point' }
+];
+
+export const DEFAULT_BACKGROUND_STYLE: BackgroundStyle = {
+  kind: 'image',
+  color: '#1976d2',
+  gradientColors: ['#1976d2', '#0d2b52'],
+  gradientAngle: 135,
+  fit: 'cover',
+  focusX: 0.5,
+  focusY: 0.5,
+  zoom: 1,
+  blur: 0,
+  tintColor: '#000000',
+  tintOpacity: 0,
+  vignette: 0
+};
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Cover the box, then slide the image so the focal point sits as near the centre as the edges allow
+const coverAt = (image: CanvasSize, box: Rect, focusX: number, focusY: number, zoom: number): Rect => {
+  const ratio = Math.max(box.width / image.width, box.height / image.height) * Math.max(1, zoom);
+  const width = image.width * ratio;
+  const height = image.height * ratio;
+  return {
+    x: box.x + clamp(box.width / 2 - focusX * width, box.width - width, 0),
+    y: box.y + clamp(box.height / 2 - focusY * height, box.height - height, 0),
+    width,
+    height
+  };
+};
+
+/**
+ * Where to draw an image of `image` size so it fills `box` according to the
+ * fit mode. Tiling is handled by the caller; here it places the first tile.
+ */
+export const fitImage = (style: BackgroundStyle, image: CanvasSize, box: Rect, scale: number): Rect => {
+  switch (style.fit) {
+    case 'stretch':
+      return box;
+    case 'contain': {
+      const ratio = Math.min(box.width / image.width, box.height / image.height);
+      const width = image.width * ratio;
+      const height = image.height * ratio;
+      return { x: box.x + (box.width - width) / 2, y: box.y + (box.height - height) / 2, width, height };
+    }
+    case 'tile':
+      return { x: box.x, y: box.y, width: image.width * scale * style.zoom, height: image.height * scale * style.zoom };
+    case 'focal':
+      return coverAt(image, box, style.focusX, style.focusY, style.zoom);
+    default:
+      return coverAt(image, box, 0.5, 0.5, 1);
+  }
+};
+
+// Start and end of a linear gradient through the centre of `box` that reaches its corners
+export const gradientLine = (angle: number, box: Rect) => {
+  const radians = (angle * Math.PI) / 180;
+  const dx = Math.cos(radians);
+  const dy = Math.sin(radians);
+  const half = (Math.abs(box.width * dx) + Math.abs(box.height * dy)) / 2;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  return { x0: cx - dx * half, y0: cy - dy * half, x1: cx + dx * half, y1: cy + dy * half };
+};
+
+const addStops = (gradient: CanvasGradient, colors: string[]) => {
+  colors.forEach((color, i) => gradient.addColorStop(colors.length > 1 ? i / (colors.length - 1) : 0, color));
+};
+
+const fillGradient = (ctx: CanvasRenderingContext2D, radial: boolean, angle: number, colors: string[], box: Rect) => {
+  let gradient: CanvasGradient;
+  if (!radial) {
+    const { x0, y0, x1, y1 } = gradientLine(angle, box);
+    gradient = ctx.createLinearGradient(x0, y0, x1, y1);
+  } else {
+    const cx = box.x + box.width / 2;
+    const cy = box.y + box.height / 2;
+    gradient = ctx.createRadialGradient(cx, cy, 0, cx, cy, Math.hypot(box.width, box.height) / 2);
+  }
+  addStops(gradient, colors);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+};
+
+const drawImage = (
+  ctx: CanvasRenderingContext2D,
+  style: BackgroundStyle,
+  img: BackgroundImage,
+  box: Rect,
+  scale: number
+) => {
+  // SVGs without intrinsic dimensions report 0x0; let them take the box's shape
+  const image = img.width > 0 && img.height > 0 ? { width: img.width, height: img.height } : box;
+  const placed = fitImage(style, image, box, scale);
+  if (style.fit !== 'tile') {
+    ctx.drawImage(img, placed.x, placed.y, placed.width, placed.height);
+    return;
+  }
+  ctx.save();
+  ctx.beginPath();
+  ctx.rect(box.x, box.y, box.width, box.height);
+  ctx.clip();
+  // Never let a tiny zoom turn into millions of tiles
+  const tileWidth = Math.max(8, placed.width);
+  const tileHeight = Math.max(8, placed.height);
+  for (let y = placed.y; y < box.y + box.height; y += tileHeight) {
+    for (let x = placed.x; x < box.x + box.width; x += tileWidth) {
+      ctx.drawImage(img, x, y, tileWidth, tileHeight);
+    }
+  }
+  ctx.restore();
+};
+
+const drawFill = (
+  ctx: CanvasRenderingContext2D,
+  style: BackgroundStyle,
+  img: BackgroundImage | null,
+  palette: PaletteColor[],
+  box: Rect,
+  scale: number
+) => {
+  if (style.kind === 'linear' || style.kind === 'radial') {
+    fillGradient(ctx, style.kind === 'radial', style.gradientAngle, style.gradientColors, box);
+    return;
+  }
+
+  // Document colours, and the fallback for a cover page that couldn't be rendered
+  if (style.kind === 'palette' || (style.kind === 'cover-page' && !img)) {
+    const colors = paletteGradient(palette, PALETTE_STOPS);
+    fillGradient(ctx, false, style.gradientAngle, colors.length > 0 ? colors : style.gradientColors, box);
+    return;
+  }
+
+  // With no image set the canvas stays transparent, as it always has
+  if (style.kind !== 'solid' && !img) return;
+  ctx.fillStyle = style.color;
+  ctx.fillRect(box.x, box.y, box.width, box.height);
+  if (style.kind !== 'solid' && img) drawImage(ctx, style, img, box, scale);
+};
+
+/**
+ * Paint the whole canvas with the background, then the tint and vignette that
+ * help pages and text stand out against it. `img` is the uploaded image or the
+ * cover page, depending on the kind; `palette` holds the document's colours.
+ */
+export const drawBackground = (
+  ctx: CanvasRenderingContext2D,
+  style: BackgroundStyle,
+  img: BackgroundImage | null,
+  canvas: CanvasSize,
+  scale: number,
+  palette: PaletteColor[] = []
+) => {
+  const full: Rect = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+  const blur = style.blur * scale;
+
+  ctx.save();
+  if (blur > 0) {
+    // Blur pulls in transparency at the edges, so paint past them and clip back.
+    // Browsers without canvas filters simply draw it sharp.
+    const overscan = blur * 2;
+    ctx.beginPath();
+    ctx.rect(0, 0, canvas.width, canvas.height);
+    ctx.clip();
+    ctx.filter = `blur(${blur}px)`;
+    drawFill(ctx, style, img, palette, {
+      x: -overscan,
+      y: -overscan,
+      width: canvas.width + overscan * 2,
+      height: canvas.height + overscan * 2
+    }, scale);
+  } else {
+    drawFill(ctx, style, img, palette, full, scale);
+  }
+  ctx.restore();
+
+  if (style.tintOpacity > 0) {
+    ctx.fillStyle = hexToRgba(style.tintColor, style.tintOpacity);
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+
+  if (style.vignette > 0) {
+    const cx = canvas.width / 2;
+    const cy = canvas.height / 2;
+    const radius = Math.hypot(canvas.width, canvas.height) / 2;
+    const vignette = ctx.createRadialGradient(cx, cy, radius * 0.45, cx, cy, radius);
+    vignette.addColorStop(0, 'rgba(0, 0, 0, 0)');
+    vignette.addColorStop(1, `rgba(0, 0, 0, ${style.vignette})`);
+    ctx.fillStyle = vignette;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+  }
+};
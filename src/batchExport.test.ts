@@ -0,0 +1,27 @@
+import { planExport } from './batchExport.ts';
+import { MarketingImage } from './types.ts';
+
+const image = {
+  imageUrl: 'data:image/png;base64,',
+  format: 'png',
+  quality: null,
+  bytes: 0,
+  maxSizeKB: null,
+  overBudget: false,
+  presetId: 'twitter',
+  width: 1280,
+  height: 720,
+  selectedPages: [1],
+  settings: {}
+} as unknown as MarketingImage;
+
+test('same-named PDFs from different folders are told apart in the manifest', () => {
+  const { manifest } = planExport([
+    { sourceName: 'guide.pdf', sourcePath: 'b/guide.pdf', image },
+    { sourceName: 'guide.pdf', sourcePath: 'a/guide.pdf', image }
+  ]);
+  expect(manifest.images.map(({ file, sourcePdf }) => [file, sourcePdf])).toEqual([
+    ['guide-marketing-1280x720.png', 'a/guide.pdf'],
+    ['guide-marketing-1280x720-2.png', 'b/guide.pdf']
+  ]);
+});
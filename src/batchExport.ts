@@ -0,0 +1,86 @@
+import JSZip from 'jszip';
+import { MarketingImage } from './types.ts';
+import { getFormatInfo } from './imageEncoding.ts';
+
+export interface ExportEntry {
+  sourceName: string;
+  // Where the PDF was found, for the manifest, when its name alone may be ambiguous
+  sourcePath?: string;
+  image: MarketingImage;
+}
+
+export interface ExportManifest {
+  generatedAt: string;
+  images: {
+    file: string;
+    sourcePdf: string;
+    presetId: string;
+    width: number;
+    height: number;
+    format: MarketingImage['format'];
+    quality: number | null;
+    bytes: number;
+    selectedPages: (number | null)[];
+    settings: MarketingImage['settings'];
+  }[];
+}
+
+export interface ExportPlan {
+  files: { file: string; image: MarketingImage }[];
+  manifest: ExportManifest;
+}
+
+export const marketingImageFileName = (sourceName: string, image: MarketingImage): string =>
+  `${sourceName.replace(/\.pdf$/i, '')}-marketing-${image.width}x${image.height}.${getFormatInfo(image.format).extension}`;
+
+// Two outputs can share a name (e.g. a custom size equal to a preset), so later ones get a counter
+const uniqueFileName = (name: string, used: Set<string>): string => {
+  let candidate = name;
+  for (let n = 2; used.has(candidate); n++) {
+    candidate = name.replace(/(\.[^.]+)$/, `-${n}$1`);
+  }
+  used.add(candidate);
+  return candidate;
+};
+
+/**
+ * Name every image's file and describe them all in a manifest. Sorted so the
+ * same set of images always produces the same layout, in a zip or on disk.
+ */
+export const planExport = (entries: ExportEntry[]): ExportPlan => {
+  const used = new Set<string>(['manifest.json']);
+  const manifest: ExportManifest = { generatedAt: new Date().toISOString(), images: [] };
+  const sourcePdf = (entry: ExportEntry) => entry.sourcePath ?? entry.sourceName;
+  const sorted = [...entries].sort((a, b) =>
+    sourcePdf(a).localeCompare(sourcePdf(b)) || a.image.presetId.localeCompare(b.image.presetId)
+  );
+
+  const files = sorted.map(entry => {
+    const { sourceName, image } = entry;
+    const file = uniqueFileName(marketingImageFileName(sourceName, image), used);
+    manifest.images.push({
+      file,
+      sourcePdf: sourcePdf(entry),
+      presetId: image.presetId,
+      width: image.width,
+      height: image.height,
+      format: image.format,
+      quality: image.quality,
+      bytes: image.bytes,
+      selectedPages: image.selectedPages,
+      settings: image.settings
+    });
+    return { file, image };
+  });
+  return { files, manifest };
+};
+
+export const dataUrlPayload = (dataUrl: string): string => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+export const buildExportZip = async (entries: ExportEntry[]): Promise<Blob> => {
+  const zip = new JSZip();
+  const { files, manifest } = planExport(entries);
+  files.forEach(({ file, image }) => zip.file(file, dataUrlPayload(image.imageUrl), { base64: true }));
+  zip.file('manifest.json', JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob' });
+};
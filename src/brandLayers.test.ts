@@ -0,0 +1,24 @@
+import { DEFAULT_BRAND_LAYERS, drawTiledWatermark } from './brandLayers.ts';
+
+const countRepeats = (spacing: number, fontSize: number) => {
+  let repeats = 0;
+  const ctx = {
+    save: () => undefined,
+    restore: () => undefined,
+    translate: () => undefined,
+    rotate: () => undefined,
+    measureText: (text: string) => ({ width: text.length * fontSize * 0.6 }),
+    fillText: () => { repeats++; }
+  } as unknown as CanvasRenderingContext2D;
+  const watermark = { ...DEFAULT_BRAND_LAYERS.watermark, enabled: true, text: 'DRAFT', spacing, fontSize };
+  drawTiledWatermark(ctx, watermark, { width: 1280, height: 720 }, 1);
+  return repeats;
+};
+
+test('watermark sizes that would stop the grid advancing still tile a finite grid', () => {
+  for (const [spacing, fontSize] of [[-1000, 48], [0, 0]]) {
+    const repeats = countRepeats(spacing, fontSize);
+    expect(repeats).toBeGreaterThan(0);
+    expect(repeats).toBeLessThan(100000);
+  }
+});
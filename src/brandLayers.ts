@@ -0,0 +1,111 @@
+import { CanvasSize } from './layoutTemplates.ts';
+import { LayerAnchor, anchorBox } from './textLayers.ts';
+
+export type LogoAnchor = Extract<LayerAnchor, 'top-left' | 'top-right' | 'center' | 'bottom-left' | 'bottom-right'>;
+
+export interface LogoLayer {
+  // Data URL of the uploaded PNG/SVG, or null when no logo is set
+  imageUrl: string | null;
+  anchor: LogoAnchor;
+  // Reference canvas pixels between the logo and the canvas edge
+  margin: number;
+  // Logo width as a fraction of the output width
+  scale: number;
+  opacity: number;
+}
+
+export interface WatermarkLayer {
+  enabled: boolean;
+  text: string;
+  color: string;
+  opacity: number;
+  fontSize: number;
+  // Degrees; negative tilts the text up to the right
+  angle: number;
+  // Gap between repeats, in reference canvas pixels
+  spacing: number;
+}
+
+export interface BrandLayers {
+  logo: LogoLayer;
+  watermark: WatermarkLayer;
+}
+
+export const LOGO_ANCHORS: LogoAnchor[] = ['top-left', 'top-right', 'center', 'bottom-left', 'bottom-right'];
+
+export const WATERMARK_PRESETS = ['DRAFT', 'SAMPLE', 'CONFIDENTIAL'];
+
+export const DEFAULT_BRAND_LAYERS: BrandLayers = {
+  logo: {
+    imageUrl: null,
+    anchor: 'bottom-right',
+    margin: 32,
+    scale: 0.15,
+    opacity: 1
+  },
+  watermark: {
+    enabled: false,
+    text: 'DRAFT',
+    color: '#ffffff',
+    opacity: 0.25,
+    fontSize: 64,
+    angle: -30,
+    spacing: 160
+  }
+};
+
+export const drawLogo = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  logo: LogoLayer,
+  canvas: CanvasSize,
+  scale: number
+) => {
+  // SVGs without intrinsic dimensions report 0x0; treat them as square
+  const aspect = img.width > 0 && img.height > 0 ? img.height / img.width : 1;
+  const width = canvas.width * logo.scale;
+  const box = { width, height: width * aspect };
+  const { x, y } = anchorBox(logo.anchor, box, canvas, logo.margin * scale);
+  ctx.save();
+  ctx.globalAlpha = logo.opacity;
+  ctx.drawImage(img, x, y, box.width, box.height);
+  ctx.restore();
+};
+
+// Closest the watermark repeats may sit, in reference canvas pixels. A zero font size
+// or negative spacing would otherwise stop the grid advancing and the tiling never end.
+const MIN_WATERMARK_STEP = 8;
+
+// Repeat the watermark text on a rotated grid that covers the whole canvas
+export const drawTiledWatermark = (
+  ctx: CanvasRenderingContext2D,
+  watermark: WatermarkLayer,
+  canvas: CanvasSize,
+  scale: number
+) => {
+  if (!watermark.enabled || !watermark.text.trim() || !(scale > 0)) return;
+
+  ctx.save();
+  ctx.globalAlpha = watermark.opacity;
+  ctx.fillStyle = watermark.color;
+  ctx.font = `700 ${watermark.fontSize * scale}px Roboto, sans-serif`;
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+
+  const minStep = MIN_WATERMARK_STEP * scale;
+  const stepX = Math.max(minStep, ctx.measureText(watermark.text).width + watermark.spacing * scale);
+  const stepY = Math.max(minStep, (watermark.fontSize + watermark.spacing) * scale);
+  // The rotated grid has to reach the corners, so cover the canvas diagonal
+  const reach = Math.hypot(canvas.width, canvas.height) / 2;
+
+  ctx.translate(canvas.width / 2, canvas.height / 2);
+  ctx.rotate(watermark.angle * Math.PI / 180);
+  for (let row = 0, y = -reach; y <= reach; row++, y += stepY) {
+    // Stagger alternate rows so the repeats don't line up in columns
+    const shift = row % 2 === 0 ? 0 : stepX / 2;
+    for (let x = -reach - shift; x <= reach; x += stepX) {
+      ctx.fillText(watermark.text, x, y);
+    }
+  }
+  ctx.restore();
+};
@@ -0,0 +1,220 @@
+import * as path from 'path';
+import { mkdir, readFile, readdir, stat, writeFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { ExportEntry, dataUrlPayload, planExport } from './batchExport.ts';
+import { DEFAULT_STYLE, PUBLIC_DIR, createAssetLoader, renderPdf } from './nodeRenderer.ts';
+import { PresetStyle, StylePreset, parsePresetFile } from './stylePresets.ts';
+import { CUSTOM_PRESET_ID, OUTPUT_PRESETS, parseOutputSize } from './outputPresets.ts';
+import { EXPORT_FORMATS, ExportFormat } from './imageEncoding.ts';
+
+// Batch generation for release pipelines: renders marketing images for a set of
+// PDFs with a preset exported from the app and writes them with a manifest.
+
+const USAGE = `Usage: npm run cli -- [options] <pdf, folder or glob>...
+
+Options:
+  -p, --preset <file>       Preset file exported from the app (default: the team defaults)
+  -n, --preset-name <name>  Preset to use from the file (default: the first)
+  -s, --size <id|WxH>       Output size, repeatable: ${OUTPUT_PRESETS.map(preset => preset.id).join(', ')}
+                            or a custom size such as 1600x900 (default: the preset's sizes)
+  -f, --format <format>     ${EXPORT_FORMATS.map(info => info.format).join(', ')}; repeatable (default: the preset's format)
+  -q, --quality <0-100>     Quality for lossy formats
+      --max-size <KB>       Largest file size to aim for
+      --pages <list>        Page per layout slot, e.g. 1,3,2 (default: the best pages)
+      --password <password> Password for encrypted PDFs
+  -o, --out <dir>           Output directory (default: marketing-images)
+      --allow-remote        Let presets load images from http(s) URLs
+  -h, --help                Show this help`;
+
+class UsageError extends Error {}
+
+const globToRegExp = (pattern: string) => new RegExp(`^${pattern
+  .split(/(\*\*\/?|\*|\?)/)
+  .map(part => {
+    if (part === '**/' || part === '**') return '(?:.*/)?';
+    if (part === '*') return '[^/]*';
+    if (part === '?') return '[^/]';
+    return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+  })
+  .join('')}$`, 'i');
+
+const walk = async (dir: string): Promise<string[]> => {
+  const entries = await readdir(dir, { withFileTypes: true });
+  const nested = await Promise.all(entries.map(entry => {
+    const full = path.join(dir, entry.name);
+    return entry.isDirectory() ? walk(full) : Promise.resolve([full]);
+  }));
+  return nested.flat();
+};
+
+// Expand files, folders (every PDF inside) and globs such as "docs/**/*.pdf".
+// Each PDF maps to its path from the input that found it, so same-named files in
+// different folders can be told apart.
+const expandInputs = async (inputs: string[]): Promise<Map<string, string>> => {
+  const found = new Map<string, string>();
+  const add = (file: string, root: string) => {
+    if (!found.has(file)) found.set(file, path.relative(root, file).split(path.sep).join('/'));
+  };
+  for (const input of inputs) {
+    if (/[*?]/.test(input)) {
+      // Walk from the last folder before the first wildcard and match full paths
+      const pattern = path.resolve(input).split(path.sep).join('/');
+      const base = pattern.slice(0, pattern.lastIndexOf('/', pattern.search(/[*?]/)) + 1);
+      const matcher = globToRegExp(pattern);
+      (await walk(base).catch(() => []))
+        .filter(file => matcher.test(file.split(path.sep).join('/')))
+        .forEach(file => add(path.resolve(file), base));
+      continue;
+    }
+    const info = await stat(input).catch(() => null);
+    if (!info) throw new UsageError(`No such file or folder: ${input}`);
+    if (info.isDirectory()) {
+      (await walk(input)).filter(file => /\.pdf$/i.test(file)).forEach(file => add(path.resolve(file), input));
+    } else {
+      add(path.resolve(input), path.dirname(input));
+    }
+  }
+  return new Map(Array.from(found).sort(([a], [b]) => a.localeCompare(b)));
+};
+
+const parseSize = (value: string) => {
+  try {
+    return parseOutputSize(value);
+  } catch (error) {
+    throw new UsageError((error as Error).message);
+  }
+};
+
+const parseNumber = (value: string | undefined, name: string, min: number, max: number): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new UsageError(`--${name} must be a number from ${min} to ${max}`);
+  }
+  return number;
+};
+
+const loadStyle = async (presetFile: string | undefined, presetName: string | undefined): Promise<PresetStyle> => {
+  if (!presetFile) {
+    if (presetName) throw new UsageError('--preset-name needs --preset');
+    return DEFAULT_STYLE;
+  }
+  const presets: StylePreset[] = parsePresetFile(await readFile(presetFile, 'utf8'), DEFAULT_STYLE);
+  const preset = presetName ? presets.find(candidate => candidate.name === presetName) : presets[0];
+  if (!preset) {
+    throw new UsageError(presetName
+      ? `No preset named "${presetName}"; the file has ${presets.map(candidate => `"${candidate.name}"`).join(', ')}`
+      : 'The preset file is empty');
+  }
+  return preset;
+};
+
+const run = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      preset: { type: 'string', short: 'p' },
+      'preset-name': { type: 'string', short: 'n' },
+      size: { type: 'string', short: 's', multiple: true },
+      format: { type: 'string', short: 'f', multiple: true },
+      quality: { type: 'string', short: 'q' },
+      'max-size': { type: 'string' },
+      pages: { type: 'string' },
+      password: { type: 'string' },
+      out: { type: 'string', short: 'o', default: 'marketing-images' },
+      'allow-remote': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return 0;
+  }
+  if (positionals.length === 0) throw new UsageError('No PDFs given');
+
+  const style = await loadStyle(values.preset, values['preset-name']);
+  const sizes = (values.size ?? []).map(parseSize);
+  const custom = sizes.filter(size => size.presetId === CUSTOM_PRESET_ID);
+  if (custom.length > 1) throw new UsageError('Only one custom size can be given');
+  const formats = values.format?.map(format => {
+    if (!EXPORT_FORMATS.some(info => info.format === format)) throw new UsageError(`Unknown format "${format}"`);
+    return format as ExportFormat;
+  });
+  const pages = values.pages?.split(',').map(page => {
+    const pageNum = Number(page.trim());
+    if (!Number.isInteger(pageNum) || pageNum < 1) throw new UsageError(`--pages has an invalid page "${page}"`);
+    return pageNum;
+  });
+  const quality = parseNumber(values.quality, 'quality', 1, 100);
+  const maxSizeKB = parseNumber(values['max-size'], 'max-size', 1, Number.MAX_SAFE_INTEGER);
+
+  const jobStyle: PresetStyle = {
+    ...style,
+    settings: {
+      ...style.settings,
+      outputPresetIds: sizes.length > 0 ? sizes.map(size => size.presetId) : style.settings.outputPresetIds,
+      customWidth: custom[0]?.width ?? style.settings.customWidth,
+      customHeight: custom[0]?.height ?? style.settings.customHeight
+    },
+    exportSettings: {
+      ...style.exportSettings,
+      quality: quality ?? style.exportSettings.quality,
+      maxSizeKB: maxSizeKB ?? style.exportSettings.maxSizeKB
+    }
+  };
+
+  const files = await expandInputs(positionals);
+  if (files.size === 0) throw new UsageError('No PDFs matched');
+  const loadAsset = createAssetLoader(PUBLIC_DIR, values['allow-remote'] ?? false);
+  const outDir = path.resolve(values.out ?? 'marketing-images');
+  await mkdir(outDir, { recursive: true });
+
+  const entries: ExportEntry[] = [];
+  let failures = 0;
+  for (const [i, [file, sourcePath]] of Array.from(files).entries()) {
+    const sourceName = path.basename(file);
+    process.stderr.write(`[${i + 1}/${files.size}] ${sourcePath}… `);
+    try {
+      const rendered = await renderPdf({
+        data: new Uint8Array(await readFile(file)),
+        fileName: sourceName,
+        style: jobStyle,
+        pages,
+        formats,
+        password: values.password ?? null,
+        loadAsset
+      });
+      rendered.images.forEach(image => entries.push({ sourceName, sourcePath, image }));
+      const overBudget = rendered.images.filter(image => image.overBudget).length;
+      process.stderr.write(`${rendered.images.length} image(s), pages ${rendered.selectedPages.join(',')}`
+        + `${overBudget ? `, ${overBudget} over the size limit` : ''}\n`);
+      rendered.pageErrors.forEach(({ pageNum, message }) => {
+        process.stderr.write(`    page ${pageNum} skipped: ${message}\n`);
+      });
+    } catch (error) {
+      failures++;
+      process.stderr.write(`failed: ${error instanceof Error ? error.message : String(error)}\n`);
+    }
+  }
+
+  const { files: outputs, manifest } = planExport(entries);
+  await Promise.all(outputs.map(({ file, image }) => (
+    writeFile(path.join(outDir, file), Buffer.from(dataUrlPayload(image.imageUrl), 'base64'))
+  )));
+  await writeFile(path.join(outDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  process.stderr.write(`Wrote ${outputs.length} image(s) and manifest.json to ${outDir}\n`);
+  return failures > 0 ? 1 : 0;
+};
+
+run(process.argv.slice(2)).then(
+  code => process.exit(code),
+  error => {
+    if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      process.exit(2);
+    }
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  }
+);
@@ -0,0 +1,45 @@
+import { extractPalette, mergePalettes, paletteGradient } from './colorPalette.ts';
+
+// RGBA pixels made of runs of solid colour
+const pixels = (...runs: [number, [number, number, number, number?]][]) => {
+  const data = new Uint8ClampedArray(runs.reduce((total, [count]) => total + count, 0) * 4);
+  let offset = 0;
+  runs.forEach(([count, [r, g, b, a = 255]]) => {
+    for (let i = 0; i < count; i++, offset += 4) data.set([r, g, b, a], offset);
+  });
+  return data;
+};
+
+test('the palette lists distinct colours by how much of the page they cover', () => {
+  const palette = extractPalette(pixels(
+    [500, [255, 255, 255]],
+    [300, [20, 60, 200]],
+    [10, [22, 62, 198]],
+    [100, [230, 120, 10]],
+    [90, [0, 0, 0, 0]]
+  ));
+  expect(palette.map(swatch => swatch.color)).toEqual(['#143cc8', '#e6780a']);
+  // Paper white still counts towards the total, transparency does not
+  expect(palette[0].weight).toBeCloseTo(310 / 910);
+  expect(extractPalette(pixels([10, [255, 255, 255]]))).toEqual([]);
+});
+
+test('page palettes merge in proportion to each page\'s weight', () => {
+  const merged = mergePalettes([
+    { palette: [{ color: '#ff0000', weight: 0.5 }], weight: 3 },
+    { palette: [{ color: '#0000ff', weight: 0.5 }, { color: '#f00000', weight: 0.2 }], weight: 1 }
+  ]);
+  expect(merged).toHaveLength(2);
+  expect(merged[0].weight).toBeCloseTo(0.375 + 0.05);
+  expect(merged[1]).toEqual({ color: '#0000ff', weight: 0.125 });
+  expect(mergePalettes([])).toEqual([]);
+});
+
+test('gradients prefer colourful swatches over body-text greys', () => {
+  const palette = [
+    { color: '#333333', weight: 0.4 },
+    { color: '#1565c0', weight: 0.2 },
+    { color: '#ffb300', weight: 0.1 }
+  ];
+  expect(paletteGradient(palette)).toEqual(['#ffb300', '#1565c0']);
+});
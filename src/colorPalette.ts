@@ -0,0 +1,116 @@
+// Dominant colours of rendered pages, used to build backgrounds that match the
+// document and offered as swatches when styling text.
+
+export interface PaletteColor {
+  // '#rrggbb'
+  color: string;
+  // Share of the measured pixels close to this colour (0-1)
+  weight: number;
+}
+
+export const PALETTE_SIZE = 6;
+
+// Paper white would win on nearly every page, so it is left out
+const NEAR_WHITE = 240;
+// Colours closer than this (RGB distance) are treated as the same swatch
+const MIN_DISTANCE = 56;
+// Channels are bucketed to this many bits before counting
+const BUCKET_BITS = 4;
+
+type Rgb = [number, number, number];
+
+const toHex = ([r, g, b]: Rgb) =>
+  `#${[r, g, b].map(value => Math.round(value).toString(16).padStart(2, '0')).join('')}`;
+
+const fromHex = (hex: string): Rgb => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+const distance = (a: Rgb, b: Rgb) => Math.hypot(a[0] - b[0], a[1] - b[1], a[2] - b[2]);
+
+// Roughly how colourful a colour is, 0 for greys up to 1 for pure hues
+const chroma = ([r, g, b]: Rgb) => (Math.max(r, g, b) - Math.min(r, g, b)) / 255;
+
+// Keep the heaviest colours that are distinct from one another, merging the rest into them
+const distinct = (candidates: { rgb: Rgb; weight: number }[], count: number): PaletteColor[] => {
+  const picked: { rgb: Rgb; weight: number }[] = [];
+  [...candidates].sort((a, b) => b.weight - a.weight).forEach(candidate => {
+    const near = picked.find(existing => distance(existing.rgb, candidate.rgb) < MIN_DISTANCE);
+    if (!near) {
+      picked.push({ rgb: [...candidate.rgb], weight: candidate.weight });
+      return;
+    }
+    const total = near.weight + candidate.weight;
+    near.rgb = near.rgb.map((value, i) => (value * near.weight + candidate.rgb[i] * candidate.weight) / total) as Rgb;
+    near.weight = total;
+  });
+  return picked
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, count)
+    .map(({ rgb, weight }) => ({ color: toHex(rgb), weight }));
+};
+
+/**
+ * Find the dominant colours in RGBA pixel data, heaviest first. Transparent
+ * and near-white pixels are ignored; weights are shares of all opaque pixels.
+ */
+export const extractPalette = (data: Uint8ClampedArray, count = PALETTE_SIZE): PaletteColor[] => {
+  const shift = 8 - BUCKET_BITS;
+  const buckets = new Map<number, { r: number; g: number; b: number; n: number }>();
+  let opaque = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) continue;
+    opaque++;
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    if (r > NEAR_WHITE && g > NEAR_WHITE && b > NEAR_WHITE) continue;
+    const key = ((r >> shift) << (BUCKET_BITS * 2)) | ((g >> shift) << BUCKET_BITS) | (b >> shift);
+    const bucket = buckets.get(key);
+    if (bucket) {
+      bucket.r += r; bucket.g += g; bucket.b += b; bucket.n++;
+    } else {
+      buckets.set(key, { r, g, b, n: 1 });
+    }
+  }
+  if (opaque === 0) return [];
+  return distinct(
+    Array.from(buckets.values(), ({ r, g, b, n }) => ({ rgb: [r / n, g / n, b / n] as Rgb, weight: n / opaque })),
+    count
+  );
+};
+
+/**
+ * Combine page palettes into one for the whole document. Each page counts in
+ * proportion to `weight`, so visually rich pages can outweigh pages of text.
+ */
+export const mergePalettes = (pages: { palette: PaletteColor[]; weight: number }[], count = PALETTE_SIZE): PaletteColor[] => {
+  const totalWeight = pages.reduce((total, page) => total + page.weight, 0);
+  if (totalWeight <= 0) return [];
+  return distinct(
+    pages.flatMap(({ palette, weight }) => palette.map(swatch => ({
+      rgb: fromHex(swatch.color),
+      weight: swatch.weight * weight / totalWeight
+    }))),
+    count
+  );
+};
+
+// Colours of a whole document, with visually interesting pages counting for more than text
+export const documentPalette = (pages: { palette: PaletteColor[] | null; score: number | null }[]): PaletteColor[] =>
+  mergePalettes(pages.flatMap(page => (
+    page.palette ? [{ palette: page.palette, weight: 1 + Math.max(0, page.score ?? 0) / 25 }] : []
+  )));
+
+/**
+ * Pick gradient stops from a palette, favouring colourful swatches over the
+ * greys and blacks of body text, ordered light to dark.
+ */
+export const paletteGradient = (palette: PaletteColor[], stops = 2): string[] => {
+  const luminance = ([r, g, b]: Rgb) => 0.299 * r + 0.587 * g + 0.114 * b;
+  return palette
+    .map(swatch => ({ rgb: fromHex(swatch.color), swatch }))
+    .sort((a, b) => b.swatch.weight * (0.2 + chroma(b.rgb)) - a.swatch.weight * (0.2 + chroma(a.rgb)))
+    .slice(0, stops)
+    .sort((a, b) => luminance(b.rgb) - luminance(a.rgb))
+    .map(({ swatch }) => swatch.color);
+};
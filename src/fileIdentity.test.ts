@@ -0,0 +1,21 @@
+import { downloadFileName, uniqueId } from './fileIdentity.ts';
+
+test('Content-Disposition filenames win over the URL', () => {
+  expect(downloadFileName('attachment; filename="Annual Report.pdf"', 'https://example.com/download?id=4'))
+    .toBe('Annual Report.pdf');
+  expect(downloadFileName('attachment; filename=plain.pdf; size=10', 'https://example.com/x')).toBe('plain.pdf');
+  expect(downloadFileName("attachment; filename=\"fallback.pdf\"; filename*=UTF-8''Caf%C3%A9%20menu.pdf", 'https://example.com/x'))
+    .toBe('Café menu.pdf');
+});
+
+test('URL paths name the download when there is no header', () => {
+  expect(downloadFileName(null, 'https://example.com/docs/brochure%202024.pdf?v=2')).toBe('brochure 2024.pdf');
+  expect(downloadFileName(null, 'https://example.com/files/report')).toBe('report.pdf');
+  expect(downloadFileName(null, 'https://example.com/')).toBe('downloaded.pdf');
+  expect(downloadFileName('attachment; filename="../../etc/passwd"', 'https://example.com/')).toBe('passwd.pdf');
+});
+
+test('duplicate ids get a numbered suffix', () => {
+  expect(uniqueId('abc', new Set())).toBe('abc');
+  expect(uniqueId('abc', new Set(['abc', 'abc-2']))).toBe('abc-3');
+});
@@ -0,0 +1,59 @@
+// Loaded PDFs are identified by a hash of their bytes, so two different files that
+// happen to share a name never collide and re-uploading the same file is detectable.
+
+export interface IdentifiedFile {
+  id: string;
+  file: File;
+}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const hashFile = async (file: Blob): Promise<string> =>
+  toHex(await crypto.subtle.digest('SHA-256', await file.arrayBuffer()));
+
+// Suffix an id until it no longer clashes, for duplicates the user chose to load anyway
+export const uniqueId = (id: string, taken: Set<string>): string => {
+  let candidate = id;
+  for (let copy = 2; taken.has(candidate); copy++) {
+    candidate = `${id}-${copy}`;
+  }
+  return candidate;
+};
+
+const DEFAULT_DOWNLOAD_NAME = 'downloaded.pdf';
+
+// Pull the filename out of a Content-Disposition header, preferring the RFC 5987 filename* form
+const dispositionFileName = (header: string): string | null => {
+  const extended = /filename\*\s*=\s*(?:[\w-]+)?'[^']*'([^;]+)/i.exec(header);
+  if (extended) {
+    try {
+      return decodeURIComponent(extended[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Badly encoded; fall back to the plain filename parameter
+    }
+  }
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  return plain ? (plain[2] ?? plain[1]).trim() : null;
+};
+
+const urlFileName = (url: string): string | null => {
+  try {
+    const segment = new URL(url).pathname.split('/').filter(Boolean).pop();
+    return segment ? decodeURIComponent(segment) : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Name for a PDF fetched from a URL: the server's Content-Disposition filename
+ * when it is exposed to us, otherwise the last segment of the URL path.
+ */
+export const downloadFileName = (contentDisposition: string | null, url: string): string => {
+  const name = (contentDisposition && dispositionFileName(contentDisposition)) || urlFileName(url);
+  // Drop anything that looks like a path so the name is safe to use for downloads
+  const base = name?.split(/[\\/]/).pop()?.trim();
+  if (!base) return DEFAULT_DOWNLOAD_NAME;
+  return /\.pdf$/i.test(base) ? base : `${base}.pdf`;
+};
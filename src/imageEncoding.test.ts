@@ -0,0 +1,31 @@
+import { dataUrlByteSize, encodeCanvas } from './imageEncoding.ts';
+
+// Fake canvas whose JPEG output grows by 1 KB per quality point
+const fakeCanvas = (supportsWebp = true) => ({
+  toDataURL: (type: string, quality?: number) => {
+    const mimeType = type === 'image/webp' && !supportsWebp ? 'image/png' : type;
+    const kb = mimeType === 'image/png' ? 500 : Math.round((quality ?? 0.92) * 100);
+    return `data:${mimeType};base64,${'A'.repeat(kb * 1024 * 4 / 3)}`;
+  }
+}) as unknown as HTMLCanvasElement;
+
+test('dataUrlByteSize accounts for base64 padding', () => {
+  expect(dataUrlByteSize('data:image/png;base64,QUJD')).toBe(3);
+  expect(dataUrlByteSize('data:image/png;base64,QUI=')).toBe(2);
+  expect(dataUrlByteSize('data:image/png;base64,QQ==')).toBe(1);
+});
+
+test('size budget finds the highest quality that fits', () => {
+  const result = encodeCanvas(fakeCanvas(), { format: 'jpeg', quality: 90, maxSizeKB: 42 });
+  expect(result).toMatchObject({ format: 'jpeg', quality: 42, overBudget: false });
+});
+
+test('budget that cannot be met is flagged', () => {
+  const result = encodeCanvas(fakeCanvas(), { format: 'jpeg', quality: 90, maxSizeKB: 5 });
+  expect(result).toMatchObject({ quality: 10, maxSizeKB: 5, overBudget: true });
+});
+
+test('unsupported formats report what the browser actually produced', () => {
+  const result = encodeCanvas(fakeCanvas(false), { format: 'webp', quality: 80, maxSizeKB: null });
+  expect(result).toMatchObject({ format: 'png', quality: null });
+});
@@ -0,0 +1,105 @@
+export type ExportFormat = 'png' | 'jpeg' | 'webp';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  // 0-100, ignored for PNG
+  quality: number;
+  // Largest acceptable file size in KB, or null for no limit. Only lossy formats can honour it.
+  maxSizeKB: number | null;
+}
+
+export interface EncodedImage {
+  imageUrl: string;
+  format: ExportFormat;
+  quality: number | null;
+  bytes: number;
+  // Size limit in KB the image was encoded against, or null when there was none
+  maxSizeKB: number | null;
+  overBudget: boolean;
+}
+
+interface FormatInfo {
+  format: ExportFormat;
+  label: string;
+  mimeType: string;
+  extension: string;
+  lossy: boolean;
+}
+
+export const EXPORT_FORMATS: FormatInfo[] = [
+  { format: 'png', label: 'PNG', mimeType: 'image/png', extension: 'png', lossy: false },
+  { format: 'jpeg', label: 'JPEG', mimeType: 'image/jpeg', extension: 'jpg', lossy: true },
+  { format: 'webp', label: 'WebP', mimeType: 'image/webp', extension: 'webp', lossy: true }
+];
+
+export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
+  format: 'png',
+  quality: 90,
+  maxSizeKB: null
+};
+
+// Lowest quality the size budget search will go down to
+const MIN_BUDGET_QUALITY = 10;
+
+export const getFormatInfo = (format: ExportFormat): FormatInfo =>
+  EXPORT_FORMATS.find(info => info.format === format) ?? EXPORT_FORMATS[0];
+
+// Decoded size of a base64 data URL
+export const dataUrlByteSize = (dataUrl: string): number => {
+  const base64 = dataUrl.slice(dataUrl.indexOf(',') + 1);
+  const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+  return Math.floor(base64.length * 3 / 4) - padding;
+};
+
+// Browsers silently fall back to PNG for formats they cannot encode, so read back what we got
+const formatOfDataUrl = (dataUrl: string): ExportFormat => {
+  const mimeType = dataUrl.slice(5, dataUrl.indexOf(';'));
+  return EXPORT_FORMATS.find(info => info.mimeType === mimeType)?.format ?? 'png';
+};
+
+const encode = (
+  canvas: HTMLCanvasElement, format: ExportFormat, quality: number | null, maxSizeKB: number | null
+): EncodedImage => {
+  const info = getFormatInfo(format);
+  const imageUrl = info.lossy && quality !== null
+    ? canvas.toDataURL(info.mimeType, quality / 100)
+    : canvas.toDataURL(info.mimeType);
+  const actualFormat = formatOfDataUrl(imageUrl);
+  return {
+    imageUrl,
+    format: actualFormat,
+    quality: getFormatInfo(actualFormat).lossy ? quality : null,
+    bytes: dataUrlByteSize(imageUrl),
+    maxSizeKB,
+    overBudget: false
+  };
+};
+
+/**
+ * Encode the canvas in the requested format. With a size budget, binary search
+ * for the highest whole-number quality (up to the configured one) that fits.
+ */
+export const encodeCanvas = (canvas: HTMLCanvasElement, settings: ExportSettings): EncodedImage => {
+  const first = encode(canvas, settings.format, settings.quality, settings.maxSizeKB);
+  const budget = settings.maxSizeKB !== null ? settings.maxSizeKB * 1024 : null;
+  if (budget === null || first.bytes <= budget) return first;
+  if (!getFormatInfo(first.format).lossy) return { ...first, overBudget: true };
+
+  let low = MIN_BUDGET_QUALITY;
+  let high = settings.quality - 1;
+  let best: EncodedImage | null = null;
+  while (low <= high) {
+    const quality = Math.floor((low + high) / 2);
+    const candidate = encode(canvas, first.format, quality, settings.maxSizeKB);
+    if (candidate.bytes <= budget) {
+      best = candidate;
+      low = quality + 1;
+    } else {
+      high = quality - 1;
+    }
+  }
+  if (best) return best;
+
+  // Nothing fits; hand back the smallest we can make and let the caller flag it
+  return { ...encode(canvas, first.format, MIN_BUDGET_QUALITY, settings.maxSizeKB), overBudget: true };
+};
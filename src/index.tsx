@@ -1,9 +1,15 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
+import '@fontsource/roboto/300.css';
+import '@fontsource/roboto/400.css';
+import '@fontsource/roboto/500.css';
+import '@fontsource/roboto/700.css';
+import '@fontsource/roboto/900.css';
 import './index.css';
 import App from './App.tsx';
 import * as serviceWorkerRegistration from './serviceWorkerRegistration.ts';
 import reportWebVitals from './reportWebVitals.ts';
+import { SERVICE_WORKER_READY_EVENT, SERVICE_WORKER_UPDATE_EVENT } from './UpdatePrompt.tsx';
 
 const root = ReactDOM.createRoot(
   document.getElementById('root') as HTMLElement
@@ -14,10 +20,13 @@ root.render(
   </React.StrictMode>
 );
 
-// If you want your app to work offline and load faster, you can change
-// unregister() to register() below. Note this comes with some pitfalls.
+// Cache the app, the pdf.js worker, fonts and the default background for offline use.
+// UpdatePrompt tells the user when a new version is ready or the app works offline.
 // Learn more about service workers: https://cra.link/PWA
-serviceWorkerRegistration.unregister();
+serviceWorkerRegistration.register({
+  onUpdate: registration => window.dispatchEvent(new CustomEvent(SERVICE_WORKER_UPDATE_EVENT, { detail: registration })),
+  onSuccess: () => window.dispatchEvent(new Event(SERVICE_WORKER_READY_EVENT))
+});
 
 // If you want to start measuring performance in your app, pass a function
 // to log results (for example: reportWebVitals(console.log))
@@ -0,0 +1,86 @@
+import { DEFAULT_PAGE_STYLE } from './pageStyle.ts';
+import { DEFAULT_MOCKUP } from './mockups.ts';
+import {
+  LAYOUT_TEMPLATES, REFERENCE_CANVAS, applySlotAdjustments, fitPlacements, getLayoutTemplate,
+  resizeSlotSelection
+} from './layoutTemplates.ts';
+import { createDefaultTextLayers } from './textLayers.ts';
+import { DEFAULT_LAYOUT_SETTINGS } from './stylePresets.ts';
+
+const settings = {
+  templateId: 'fan-3',
+  pageSize: 400,
+  tiltAngle: 15,
+  overlap: 50,
+  pageStyle: DEFAULT_PAGE_STYLE,
+  mockup: DEFAULT_MOCKUP,
+  slotAdjustments: [],
+  outputPresetIds: ['widescreen'],
+  customWidth: 1600,
+  customHeight: 900
+};
+const canvas = { width: 1280, height: 720 };
+
+test('every template places exactly one page per slot', () => {
+  for (const template of LAYOUT_TEMPLATES) {
+    const placements = template.place(settings, canvas, 1.5);
+    expect(placements.map(p => p.slot).sort()).toEqual(template.slots.map((_, i) => i));
+  }
+});
+
+test('three-page fan keeps the center page on top', () => {
+  const placements = getLayoutTemplate('fan-3').place(settings, canvas, 1.5);
+  const top = placements.reduce((a, b) => (b.zIndex > a.zIndex ? b : a));
+  expect(top).toMatchObject({ slot: 1, x: 640, y: 360, rotation: 0 });
+  expect(placements[0].rotation).toBe(-15);
+  expect(placements[2].rotation).toBe(15);
+});
+
+test('the default fan clears the default headline and call to action', () => {
+  // Text sits 40px from the edge; the CTA pill adds its padding around the line
+  const [headline, , cta] = createDefaultTextLayers('Annual report');
+  const headlineBottom = 40 + headline.fontSize * 1.2;
+  const ctaTop = canvas.height - 40 - cta.fontSize * 1.2 - cta.background.paddingY * 2;
+  // A4 pages are among the tallest a PDF is likely to have
+  for (const p of getLayoutTemplate(DEFAULT_LAYOUT_SETTINGS.templateId).place(DEFAULT_LAYOUT_SETTINGS, canvas, 1.414)) {
+    const radians = p.rotation * Math.PI / 180;
+    const halfHeight = (p.height * Math.cos(radians) + p.width * Math.abs(Math.sin(radians))) / 2;
+    expect(p.y - halfHeight).toBeGreaterThan(headlineBottom);
+    expect(p.y + halfHeight).toBeLessThan(ctaTop);
+  }
+});
+
+test('unknown template ids fall back to the three-page fan', () => {
+  expect(getLayoutTemplate('does-not-exist').id).toBe('fan-3');
+});
+
+test('resizing a selection keeps chosen pages and clamps defaults to the page count', () => {
+  const fan = getLayoutTemplate('fan-5');
+  expect(resizeSlotSelection(fan, [7, 8], 3)).toEqual([7, 8, 1, 3, 3]);
+  expect(resizeSlotSelection(getLayoutTemplate('hero'), [7, 8], 3)).toEqual([7]);
+});
+
+test('fitting placements to a square canvas scales uniformly and stays centered', () => {
+  const placements = getLayoutTemplate('fan-3').place(settings, REFERENCE_CANVAS, 1.5);
+  const fitted = fitPlacements(placements, REFERENCE_CANVAS, { width: 1080, height: 1080 });
+  const scale = 1080 / 1280;
+  expect(fitted[1]).toMatchObject({ x: 540, y: 540, width: 400 * scale, height: 600 * scale });
+});
+
+test('slot adjustments move, rotate, scale and restack only the adjusted slot', () => {
+  const placements = getLayoutTemplate('fan-3').place(settings, REFERENCE_CANVAS, 1.5);
+  const adjusted = applySlotAdjustments(placements, [
+    null,
+    null,
+    { dx: 10, dy: -20, rotation: 5, scale: 0.5, zOffset: 3 }
+  ]);
+  expect(adjusted[0]).toEqual(placements[0]);
+  expect(adjusted[2]).toMatchObject({
+    x: placements[2].x + 10,
+    y: placements[2].y - 20,
+    width: 200,
+    height: 300,
+    rotation: 20,
+    zIndex: 4
+  });
+});
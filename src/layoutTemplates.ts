@@ -0,0 +1,262 @@
+import { LayoutSettings } from './types.ts';
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+export interface LayoutSlot {
+  label: string;
+  // 1-based page picked for this slot when a PDF is first loaded
+  defaultPage: number;
+}
+
+export interface PagePlacement {
+  slot: number;
+  // Center of the page on the canvas
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  rotation: number; // degrees, clockwise
+  zIndex: number;
+}
+
+// Manual tweak to a template slot made in the live preview, in reference canvas units
+export interface SlotAdjustment {
+  dx: number;
+  dy: number;
+  rotation: number;
+  scale: number;
+  zOffset: number;
+}
+
+export interface LayoutTemplate {
+  id: string;
+  name: string;
+  slots: LayoutSlot[];
+  // pageAspect is height / width of the pages being placed
+  place: (settings: LayoutSettings, canvas: CanvasSize, pageAspect: number) => PagePlacement[];
+}
+
+const threePageFan: LayoutTemplate = {
+  id: 'fan-3',
+  name: 'Three-page fan',
+  slots: [
+    { label: 'Left', defaultPage: 2 },
+    { label: 'Center', defaultPage: 1 },
+    { label: 'Right', defaultPage: 3 }
+  ],
+  place: ({ pageSize, tiltAngle, overlap }, canvas, pageAspect) => {
+    const height = pageSize * pageAspect;
+    const centerX = canvas.width / 2;
+    const centerY = canvas.height / 2;
+    return [
+      { slot: 0, x: centerX - pageSize + overlap, y: centerY, width: pageSize, height, rotation: -tiltAngle, zIndex: 0 },
+      { slot: 1, x: centerX, y: centerY, width: pageSize, height, rotation: 0, zIndex: 2 },
+      { slot: 2, x: centerX + pageSize - overlap, y: centerY, width: pageSize, height, rotation: tiltAngle, zIndex: 1 }
+    ];
+  }
+};
+
+const singleHero: LayoutTemplate = {
+  id: 'hero',
+  name: 'Single hero page',
+  slots: [{ label: 'Hero', defaultPage: 1 }],
+  place: ({ pageSize, tiltAngle }, canvas, pageAspect) => [
+    {
+      slot: 0,
+      x: canvas.width / 2,
+      y: canvas.height / 2,
+      width: pageSize,
+      height: pageSize * pageAspect,
+      rotation: -tiltAngle / 3,
+      zIndex: 0
+    }
+  ]
+};
+
+const openSpread: LayoutTemplate = {
+  id: 'spread',
+  name: 'Two-page open spread',
+  slots: [
+    { label: 'Left', defaultPage: 2 },
+    { label: 'Right', defaultPage: 3 }
+  ],
+  place: ({ pageSize }, canvas, pageAspect) => {
+    const height = pageSize * pageAspect;
+    // The pages meet at the spine in the middle of the canvas
+    return [
+      { slot: 0, x: canvas.width / 2 - pageSize / 2, y: canvas.height / 2, width: pageSize, height, rotation: 0, zIndex: 0 },
+      { slot: 1, x: canvas.width / 2 + pageSize / 2, y: canvas.height / 2, width: pageSize, height, rotation: 0, zIndex: 1 }
+    ];
+  }
+};
+
+const fivePageFan: LayoutTemplate = {
+  id: 'fan-5',
+  name: 'Five-page fan',
+  slots: [
+    { label: 'Far left', defaultPage: 4 },
+    { label: 'Left', defaultPage: 2 },
+    { label: 'Center', defaultPage: 1 },
+    { label: 'Right', defaultPage: 3 },
+    { label: 'Far right', defaultPage: 5 }
+  ],
+  place: ({ pageSize, tiltAngle, overlap }, canvas, pageAspect) => {
+    const height = pageSize * pageAspect;
+    const step = pageSize - overlap;
+    return [-2, -1, 0, 1, 2].map((offset, slot) => ({
+      slot,
+      x: canvas.width / 2 + offset * step * 0.75,
+      // Outer pages drop slightly so the fan follows an arc
+      y: canvas.height / 2 + Math.abs(offset) * pageSize * 0.05,
+      width: pageSize,
+      height,
+      rotation: offset * tiltAngle,
+      zIndex: 2 - Math.abs(offset)
+    }));
+  }
+};
+
+const stackedPile: LayoutTemplate = {
+  id: 'stack',
+  name: 'Stacked pile',
+  slots: [
+    { label: 'Top', defaultPage: 1 },
+    { label: 'Middle', defaultPage: 2 },
+    { label: 'Bottom', defaultPage: 3 }
+  ],
+  place: ({ pageSize, tiltAngle, overlap }, canvas, pageAspect) => {
+    const height = pageSize * pageAspect;
+    const offset = overlap / 4;
+    return [0, 1, 2].map(slot => ({
+      slot,
+      x: canvas.width / 2 + slot * offset,
+      y: canvas.height / 2 + slot * offset,
+      width: pageSize,
+      height,
+      // Alternate the lean so the pile looks hand-placed
+      rotation: slot === 0 ? 0 : (slot % 2 === 0 ? 1 : -1) * tiltAngle * slot / 3,
+      zIndex: 2 - slot
+    }));
+  }
+};
+
+const thumbnailGrid: LayoutTemplate = {
+  id: 'grid',
+  name: 'Thumbnail grid',
+  slots: [1, 2, 3, 4, 5, 6].map(page => ({ label: `Cell ${page}`, defaultPage: page })),
+  place: ({ pageSize }, canvas, pageAspect) => {
+    const columns = 3;
+    const rows = 2;
+    const gap = 24;
+    // Shrink the cells until the whole grid fits within 90% of the canvas
+    const maxWidth = (canvas.width * 0.9 - gap * (columns - 1)) / columns;
+    const maxHeight = (canvas.height * 0.9 - gap * (rows - 1)) / rows;
+    const width = Math.min(pageSize / 2, maxWidth, maxHeight / pageAspect);
+    const height = width * pageAspect;
+    const gridWidth = columns * width + (columns - 1) * gap;
+    const gridHeight = rows * height + (rows - 1) * gap;
+    const left = (canvas.width - gridWidth) / 2;
+    const top = (canvas.height - gridHeight) / 2;
+    return Array.from({ length: columns * rows }, (_, slot) => ({
+      slot,
+      x: left + (slot % columns) * (width + gap) + width / 2,
+      y: top + Math.floor(slot / columns) * (height + gap) + height / 2,
+      width,
+      height,
+      rotation: 0,
+      zIndex: 0
+    }));
+  }
+};
+
+const cascadingStaircase: LayoutTemplate = {
+  id: 'staircase',
+  name: 'Cascading staircase',
+  slots: [1, 2, 3, 4].map(page => ({ label: `Step ${page}`, defaultPage: page })),
+  place: ({ pageSize, tiltAngle, overlap }, canvas, pageAspect) => {
+    const height = pageSize * pageAspect;
+    const stepX = Math.max(0, pageSize - overlap) / 2;
+    const stepY = pageSize * 0.1;
+    return [0, 1, 2, 3].map(slot => ({
+      slot,
+      x: canvas.width / 2 + (slot - 1.5) * stepX,
+      y: canvas.height / 2 + (slot - 1.5) * stepY,
+      width: pageSize,
+      height,
+      rotation: tiltAngle / 3,
+      // Later steps sit on top of earlier ones
+      zIndex: slot
+    }));
+  }
+};
+
+export const LAYOUT_TEMPLATES: LayoutTemplate[] = [
+  threePageFan,
+  singleHero,
+  openSpread,
+  fivePageFan,
+  stackedPile,
+  thumbnailGrid,
+  cascadingStaircase
+];
+
+export const DEFAULT_TEMPLATE_ID = threePageFan.id;
+
+export const getLayoutTemplate = (id: string): LayoutTemplate =>
+  LAYOUT_TEMPLATES.find(template => template.id === id) ?? threePageFan;
+
+// Fit a slot list to a template, keeping pages already chosen for existing slots
+export const resizeSlotSelection = (
+  template: LayoutTemplate,
+  current: (number | null)[],
+  pageCount: number
+): (number | null)[] =>
+  template.slots.map((slot, i) => current[i] ?? (pageCount > 0 ? Math.min(slot.defaultPage, pageCount) : null));
+
+// Templates are designed against this canvas and scaled to the real output size
+export const REFERENCE_CANVAS: CanvasSize = { width: 1280, height: 720 };
+
+// Factor that maps reference canvas units onto an output of the given size
+export const referenceScale = (to: CanvasSize, from: CanvasSize = REFERENCE_CANVAS): number =>
+  Math.min(to.width / from.width, to.height / from.height);
+
+// Uniformly scale placements from one canvas to another, centering the result
+export const fitPlacements = (
+  placements: PagePlacement[],
+  from: CanvasSize,
+  to: CanvasSize
+): PagePlacement[] => {
+  const scale = referenceScale(to, from);
+  const offsetX = (to.width - from.width * scale) / 2;
+  const offsetY = (to.height - from.height * scale) / 2;
+  return placements.map(placement => ({
+    ...placement,
+    x: offsetX + placement.x * scale,
+    y: offsetY + placement.y * scale,
+    width: placement.width * scale,
+    height: placement.height * scale
+  }));
+};
+
+export const IDENTITY_ADJUSTMENT: SlotAdjustment = { dx: 0, dy: 0, rotation: 0, scale: 1, zOffset: 0 };
+
+export const applySlotAdjustments = (
+  placements: PagePlacement[],
+  adjustments: (SlotAdjustment | null)[]
+): PagePlacement[] =>
+  placements.map(placement => {
+    const adjustment = adjustments[placement.slot];
+    if (!adjustment) return placement;
+    return {
+      ...placement,
+      x: placement.x + adjustment.dx,
+      y: placement.y + adjustment.dy,
+      width: placement.width * adjustment.scale,
+      height: placement.height * adjustment.scale,
+      rotation: placement.rotation + adjustment.rotation,
+      zIndex: placement.zIndex + adjustment.zOffset
+    };
+  });
@@ -0,0 +1,303 @@
+import { PageStyle, drawStyledPage } from './pageStyle.ts';
+import {
+  Point, Point3, Quad, drawImageToQuad, fillPolygon, project, rotateX, rotateY
+} from './perspective.ts';
+
+export type MockupMode = 'flat' | 'book' | 'booklet' | 'tablet' | 'laptop' | 'isometric';
+
+export interface MockupSettings {
+  mode: MockupMode;
+  // Degrees the object is turned away from the viewer
+  angle: number;
+  // Spine / stack depth in reference canvas pixels
+  thickness: number;
+}
+
+export const MOCKUP_MODES: { mode: MockupMode; label: string }[] = [
+  { mode: 'flat', label: 'Flat pages' },
+  { mode: 'book', label: 'Hardback book' },
+  { mode: 'booklet', label: 'Standing booklet' },
+  { mode: 'tablet', label: 'Tablet' },
+  { mode: 'laptop', label: 'Laptop' },
+  { mode: 'isometric', label: 'Isometric stack' }
+];
+
+export const DEFAULT_MOCKUP: MockupSettings = {
+  mode: 'flat',
+  angle: 25,
+  thickness: 30
+};
+
+type PageImage = CanvasImageSource & { width: number; height: number };
+
+const makeProjector = (yaw: number, pitch: number, focal: number) =>
+  (p: Point3): Point => project(rotateX(rotateY(p, yaw), pitch), focal);
+
+const withShadow = (ctx: CanvasRenderingContext2D, scale: number, draw: () => void) => {
+  ctx.save();
+  ctx.shadowColor = 'rgba(0, 0, 0, 0.4)';
+  ctx.shadowBlur = 30 * scale;
+  ctx.shadowOffsetY = 12 * scale;
+  draw();
+  ctx.restore();
+};
+
+// Outline of a rounded rectangle as points, so it can be pushed through a 3D projection
+const roundedRectPoints = (x: number, y: number, width: number, height: number, radius: number): Point[] => {
+  const r = Math.min(radius, width / 2, height / 2);
+  const corners = [
+    { cx: x + width - r, cy: y + r, start: -90 },
+    { cx: x + width - r, cy: y + height - r, start: 0 },
+    { cx: x + r, cy: y + height - r, start: 90 },
+    { cx: x + r, cy: y + r, start: 180 }
+  ];
+  const points: Point[] = [];
+  for (const { cx, cy, start } of corners) {
+    for (let step = 0; step <= 6; step++) {
+      const angle = (start + step * 15) * Math.PI / 180;
+      points.push({ x: cx + Math.cos(angle) * r, y: cy + Math.sin(angle) * r });
+    }
+  }
+  return points;
+};
+
+const drawBook = (
+  ctx: CanvasRenderingContext2D,
+  img: PageImage,
+  width: number,
+  height: number,
+  angle: number,
+  pitch: number,
+  thickness: number,
+  scale: number
+) => {
+  const toScreen = makeProjector(-angle, pitch, Math.max(width, height) * 3);
+  const [left, right, top, bottom] = [-width / 2, width / 2, -height / 2, height / 2];
+  const cover: Quad = [
+    toScreen({ x: left, y: top, z: 0 }),
+    toScreen({ x: right, y: top, z: 0 }),
+    toScreen({ x: right, y: bottom, z: 0 }),
+    toScreen({ x: left, y: bottom, z: 0 })
+  ];
+  const spine: Quad = [
+    toScreen({ x: left, y: top, z: thickness }),
+    cover[0],
+    cover[3],
+    toScreen({ x: left, y: bottom, z: thickness })
+  ];
+
+  withShadow(ctx, scale, () => {
+    ctx.fillStyle = '#ffffff';
+    fillPolygon(ctx, [spine[0], cover[0], cover[1], cover[2], cover[3], spine[3]]);
+  });
+
+  if (thickness > 0) {
+    // Stretch the left edge of the cover artwork round the spine, then shade it
+    drawImageToQuad(ctx, img, spine, 4, { x: 0, y: 0, width: img.width * 0.04, height: img.height });
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.35)';
+    fillPolygon(ctx, spine);
+  }
+
+  drawImageToQuad(ctx, img, cover);
+
+  // Soft light falling across the cover, darker at the hinge
+  const light = ctx.createLinearGradient(cover[0].x, 0, cover[1].x, 0);
+  light.addColorStop(0, 'rgba(0, 0, 0, 0.25)');
+  light.addColorStop(0.04, 'rgba(255, 255, 255, 0.12)');
+  light.addColorStop(1, 'rgba(0, 0, 0, 0.08)');
+  ctx.fillStyle = light;
+  fillPolygon(ctx, cover);
+};
+
+const drawBooklet = (
+  ctx: CanvasRenderingContext2D,
+  img: PageImage,
+  width: number,
+  height: number,
+  mockup: MockupSettings,
+  scale: number
+) => {
+  // Contact shadow where the booklet meets the surface it stands on
+  const floor = ctx.createRadialGradient(0, height / 2, 0, 0, height / 2, width * 0.6);
+  floor.addColorStop(0, 'rgba(0, 0, 0, 0.35)');
+  floor.addColorStop(1, 'rgba(0, 0, 0, 0)');
+  ctx.save();
+  ctx.fillStyle = floor;
+  ctx.beginPath();
+  ctx.ellipse(0, height / 2, width * 0.6, height * 0.05, 0, 0, Math.PI * 2);
+  ctx.fill();
+  ctx.restore();
+
+  const thickness = Math.max(1, mockup.thickness * scale * 0.15);
+  drawBook(ctx, img, width, height, mockup.angle * 0.6, 6, thickness, scale);
+};
+
+const drawTablet = (
+  ctx: CanvasRenderingContext2D,
+  img: PageImage,
+  width: number,
+  height: number,
+  mockup: MockupSettings,
+  scale: number
+) => {
+  const toScreen = makeProjector(-mockup.angle, 0, Math.max(width, height) * 3);
+  const bezel = Math.min(width, height) * 0.06;
+  const frame = roundedRectPoints(
+    -width / 2 - bezel, -height / 2 - bezel, width + bezel * 2, height + bezel * 2, bezel * 1.6
+  ).map(p => toScreen({ ...p, z: 0 }));
+
+  withShadow(ctx, scale, () => {
+    ctx.fillStyle = '#1c1c1e';
+    fillPolygon(ctx, frame);
+  });
+
+  const screen: Quad = [
+    toScreen({ x: -width / 2, y: -height / 2, z: 0 }),
+    toScreen({ x: width / 2, y: -height / 2, z: 0 }),
+    toScreen({ x: width / 2, y: height / 2, z: 0 }),
+    toScreen({ x: -width / 2, y: height / 2, z: 0 })
+  ];
+  drawImageToQuad(ctx, img, screen);
+
+  // Front camera in the top bezel
+  const camera = toScreen({ x: 0, y: -height / 2 - bezel / 2, z: 0 });
+  ctx.fillStyle = '#3a3a3c';
+  ctx.beginPath();
+  ctx.arc(camera.x, camera.y, bezel * 0.12, 0, Math.PI * 2);
+  ctx.fill();
+};
+
+const drawLaptop = (
+  ctx: CanvasRenderingContext2D,
+  img: PageImage,
+  width: number,
+  height: number,
+  mockup: MockupSettings,
+  scale: number
+) => {
+  const toScreen = makeProjector(-mockup.angle, 15, Math.max(width, height) * 3);
+  const bezel = width * 0.04;
+  const lidLeft = -width / 2 - bezel;
+  const lidRight = width / 2 + bezel;
+  const hingeY = height / 2 + bezel * 2;
+  const lid = roundedRectPoints(lidLeft, -height / 2 - bezel, lidRight - lidLeft, hingeY + height / 2 + bezel, bezel)
+    .map(p => toScreen({ ...p, z: 0 }));
+
+  // The base lies flat, running from the hinge towards the viewer
+  const baseHalf = (lidRight - lidLeft) * 0.54;
+  const depth = (lidRight - lidLeft) * 0.65;
+  const basePoint = (x: number, z: number) => toScreen({ x, y: hingeY, z });
+  const base = [basePoint(-baseHalf, 0), basePoint(baseHalf, 0), basePoint(baseHalf, -depth), basePoint(-baseHalf, -depth)];
+  const keyboard = [
+    basePoint(-baseHalf * 0.85, -depth * 0.08),
+    basePoint(baseHalf * 0.85, -depth * 0.08),
+    basePoint(baseHalf * 0.85, -depth * 0.55),
+    basePoint(-baseHalf * 0.85, -depth * 0.55)
+  ];
+  const trackpad = [
+    basePoint(-baseHalf * 0.25, -depth * 0.62),
+    basePoint(baseHalf * 0.25, -depth * 0.62),
+    basePoint(baseHalf * 0.25, -depth * 0.92),
+    basePoint(-baseHalf * 0.25, -depth * 0.92)
+  ];
+
+  withShadow(ctx, scale, () => {
+    ctx.fillStyle = '#1c1c1e';
+    fillPolygon(ctx, lid);
+  });
+  drawImageToQuad(ctx, img, [
+    toScreen({ x: -width / 2, y: -height / 2, z: 0 }),
+    toScreen({ x: width / 2, y: -height / 2, z: 0 }),
+    toScreen({ x: width / 2, y: height / 2, z: 0 }),
+    toScreen({ x: -width / 2, y: height / 2, z: 0 })
+  ]);
+
+  withShadow(ctx, scale, () => {
+    ctx.fillStyle = '#c9ccd1';
+    fillPolygon(ctx, base);
+  });
+  ctx.fillStyle = '#a7abb2';
+  fillPolygon(ctx, keyboard);
+  ctx.fillStyle = '#b8bcc2';
+  fillPolygon(ctx, trackpad);
+};
+
+const drawIsometricStack = (
+  ctx: CanvasRenderingContext2D,
+  img: PageImage,
+  width: number,
+  height: number,
+  mockup: MockupSettings,
+  scale: number
+) => {
+  // Classic 2:1 isometric projection of a sheet lying flat, shrunk to keep a similar footprint
+  const k = 0.75;
+  const iso = (x: number, y: number): Point => ({
+    x: (x - y) * Math.cos(Math.PI / 6) * k,
+    y: (x + y) * Math.sin(Math.PI / 6) * k
+  });
+  const sheet = (dy: number): Quad => {
+    const corners = [
+      iso(-width / 2, -height / 2),
+      iso(width / 2, -height / 2),
+      iso(width / 2, height / 2),
+      iso(-width / 2, height / 2)
+    ];
+    return corners.map(p => ({ x: p.x, y: p.y + dy })) as Quad;
+  };
+
+  const depth = mockup.thickness * scale;
+  const sheets = Math.min(12, Math.max(1, Math.round(mockup.thickness / 6)));
+  for (let i = sheets; i >= 1; i--) {
+    const quad = sheet(depth * i / sheets);
+    const drawSheet = () => {
+      ctx.fillStyle = '#ffffff';
+      fillPolygon(ctx, quad);
+    };
+    if (i === sheets) {
+      withShadow(ctx, scale, drawSheet);
+    } else {
+      drawSheet();
+    }
+    ctx.strokeStyle = '#d0d0d0';
+    ctx.lineWidth = Math.max(1, scale);
+    ctx.stroke();
+  }
+  drawImageToQuad(ctx, img, sheet(0), 1);
+};
+
+/**
+ * Draw one page centered on the current origin using the chosen mockup. Flat
+ * mode keeps the 2D page styling; the physical mockups bring their own shading.
+ */
+export const drawPageMockup = (
+  ctx: CanvasRenderingContext2D,
+  img: PageImage,
+  width: number,
+  height: number,
+  mockup: MockupSettings,
+  pageStyle: PageStyle,
+  scale: number
+) => {
+  ctx.save();
+  switch (mockup.mode) {
+    case 'book':
+      drawBook(ctx, img, width, height, mockup.angle, 0, mockup.thickness * scale, scale);
+      break;
+    case 'booklet':
+      drawBooklet(ctx, img, width, height, mockup, scale);
+      break;
+    case 'tablet':
+      drawTablet(ctx, img, width, height, mockup, scale);
+      break;
+    case 'laptop':
+      drawLaptop(ctx, img, width, height, mockup, scale);
+      break;
+    case 'isometric':
+      drawIsometricStack(ctx, img, width, height, mockup, scale);
+      break;
+    default:
+      drawStyledPage(ctx, img, width, height, pageStyle, scale);
+  }
+  ctx.restore();
+};
@@ -0,0 +1,58 @@
+import * as path from 'path';
+import {
+  Canvas, DOMMatrix, GlobalFonts, Image, ImageData, Path2D, SKRSContext2D, createCanvas, loadImage
+} from '@napi-rs/canvas';
+import { CanvasFactory, SceneCanvas } from './sceneRenderer.ts';
+
+// Canvas support for rendering in Node. Import this before pdf.js: pdf.js looks
+// for DOMMatrix and Path2D when it loads and draws, and Node has neither.
+
+Object.assign(globalThis, {
+  DOMMatrix: globalThis.DOMMatrix ?? DOMMatrix,
+  ImageData: globalThis.ImageData ?? ImageData,
+  Path2D: globalThis.Path2D ?? Path2D
+});
+
+// The app's default typeface ships with it as a web font; give Node the same files
+const ROBOTO_WEIGHTS = [300, 400, 500, 700, 900];
+const robotoFiles = path.join(path.dirname(require.resolve('@fontsource/roboto/package.json')), 'files');
+ROBOTO_WEIGHTS.forEach(weight => {
+  GlobalFonts.registerFromPath(path.join(robotoFiles, `roboto-latin-${weight}-normal.woff2`), 'Roboto');
+});
+
+// A Skia canvas that can stand in wherever the renderer expects a DOM one
+export type NodeCanvas = Canvas & SceneCanvas;
+
+export const createNodeCanvas: CanvasFactory<NodeCanvas> = (width, height) =>
+  createCanvas(width, height) as unknown as NodeCanvas;
+
+interface CanvasAndContext {
+  canvas: Canvas | null;
+  context: SKRSContext2D | null;
+}
+
+// pdf.js creates scratch canvases for patterns and masks; its own Node factory wants node-canvas
+export class NodeCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = createCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    if (!canvasAndContext.canvas) return;
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// Decode PNG, JPEG, WebP, GIF or SVG bytes into something the renderer can draw
+export const decodeImage = (bytes: Uint8Array): Promise<Image> => loadImage(Buffer.from(bytes));
@@ -0,0 +1,236 @@
+import * as path from 'path';
+import { readFile } from 'fs/promises';
+// Sets up the canvas globals pdf.js needs, so it has to come first
+import { NodeCanvas, NodeCanvasFactory, createNodeCanvas, decodeImage } from './nodeCanvas.ts';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.js';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { MarketingImage } from './types.ts';
+import { getLayoutTemplate, resizeSlotSelection } from './layoutTemplates.ts';
+import { resolveOutputSize } from './outputPresets.ts';
+import { ExportFormat, encodeCanvas } from './imageEncoding.ts';
+import { createDefaultTextLayers } from './textLayers.ts';
+import { PresetStyle, applyPresetTextLayers, defaultPresetStyle } from './stylePresets.ts';
+import { measurePage, scorePage, suggestPages } from './pageScoring.ts';
+import { PaletteColor, documentPalette, extractPalette } from './colorPalette.ts';
+import { PAGE_RENDER_SCALE, THUMBNAIL_WIDTH } from './rasterProtocol.ts';
+import { SceneImage, composeScene, renderScene } from './sceneRenderer.ts';
+import { describePdfError } from './pdfErrors.ts';
+import { DEFAULT_FETCH_SETTINGS, MAX_IMAGE_BYTES, fetchRemoteFile } from './remoteFetch.ts';
+
+// Generates marketing images outside the browser with the app's own layout and
+// drawing code. pdf.js runs in Node and draws onto Skia canvases from nodeCanvas.
+
+const PDFJS_DIR = path.dirname(require.resolve('pdfjs-dist/package.json'));
+
+// The app's public folder, where presets find the default background
+export const PUBLIC_DIR = path.resolve(__dirname, '..', 'public');
+
+// The style the app starts from, for callers without a preset
+export const DEFAULT_STYLE = defaultPresetStyle('/default-background.svg');
+
+// Failures caused by the input rather than the renderer, worth showing as they are
+export class RenderError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RenderError';
+  }
+}
+
+// Turns an image reference from a preset (background, logo) into its bytes
+export type AssetLoader = (reference: string) => Promise<Uint8Array>;
+
+export interface RenderRequest {
+  data: Uint8Array;
+  fileName: string;
+  style: PresetStyle;
+  // Page per template slot; without it the best pages are picked, as in the app
+  pages?: (number | null)[];
+  // Every output size is encoded in each format; defaults to the style's format
+  formats?: ExportFormat[];
+  password?: string | null;
+  loadAsset: AssetLoader;
+  signal?: AbortSignal;
+}
+
+export interface RenderedPdf {
+  title: string;
+  pageCount: number;
+  selectedPages: (number | null)[];
+  images: MarketingImage[];
+  // Pages that could not be rendered, which the app would mark as broken
+  pageErrors: { pageNum: number; message: string }[];
+}
+
+const ASSET_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/svg+xml'];
+
+const decodeDataUrl = (url: string): Uint8Array => {
+  const comma = url.indexOf(',');
+  const payload = url.slice(comma + 1);
+  return url.slice(0, comma).endsWith(';base64')
+    ? new Uint8Array(Buffer.from(payload, 'base64'))
+    : new Uint8Array(Buffer.from(decodeURIComponent(payload)));
+};
+
+/**
+ * Load preset images the way the app would see them: data URLs as they are,
+ * paths such as the default background from the app's public folder, and
+ * http(s) URLs only when `allowRemote` is set.
+ */
+export const createAssetLoader = (publicDir: string, allowRemote: boolean): AssetLoader => async (reference) => {
+  if (reference.startsWith('data:')) return decodeDataUrl(reference);
+  if (/^https?:\/\//i.test(reference)) {
+    if (!allowRemote) throw new RenderError(`Remote images are not allowed here (${reference})`);
+    const { blob } = await fetchRemoteFile(reference, {
+      accept: ASSET_TYPES,
+      maxBytes: MAX_IMAGE_BYTES,
+      settings: DEFAULT_FETCH_SETTINGS
+    });
+    return new Uint8Array(await blob.arrayBuffer());
+  }
+  // Presets saved by the app refer to its own files by URL path
+  const file = path.resolve(publicDir, `.${path.posix.normalize(`/${reference.split(/[?#]/)[0]}`)}`);
+  try {
+    return new Uint8Array(await readFile(file));
+  } catch {
+    throw new RenderError(`Image not found: ${reference}`);
+  }
+};
+
+const loadAssetImage = async (reference: string, loadAsset: AssetLoader): Promise<SceneImage> => {
+  const bytes = await loadAsset(reference);
+  try {
+    return await decodeImage(bytes) as unknown as SceneImage;
+  } catch {
+    throw new RenderError(`Could not read the image ${reference.startsWith('data:') ? 'in the preset' : reference}`);
+  }
+};
+
+const openDocument = async (data: Uint8Array, password: string | null): Promise<PDFDocumentProxy> => {
+  try {
+    return await pdfjsLib.getDocument({
+      // pdf.js takes ownership of the buffer it is given
+      data: new Uint8Array(data),
+      password: password ?? undefined,
+      canvasFactory: new NodeCanvasFactory(),
+      // FontFace needs a document; draw glyphs as paths instead
+      disableFontFace: true,
+      isEvalSupported: false,
+      standardFontDataUrl: `${PDFJS_DIR}/standard_fonts/`,
+      cMapUrl: `${PDFJS_DIR}/cmaps/`,
+      cMapPacked: true,
+      // Problems are reported through pageErrors rather than the console
+      verbosity: pdfjsLib.VerbosityLevel.ERRORS
+    }).promise;
+  } catch (error) {
+    throw new RenderError(describePdfError(error));
+  }
+};
+
+const renderPage = async (doc: PDFDocumentProxy, pageNum: number, targetWidth: number | null) => {
+  const page = await doc.getPage(pageNum);
+  const viewport = page.getViewport({
+    scale: targetWidth ? targetWidth / page.getViewport({ scale: 1 }).width : PAGE_RENDER_SCALE
+  });
+  const canvas = createNodeCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+  const context = canvas.getContext('2d') as unknown as CanvasRenderingContext2D;
+  await page.render({ canvasContext: context, viewport }).promise;
+  return { page, canvas, context };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new RenderError('Rendering was cancelled');
+};
+
+/**
+ * Render every output size of a PDF's marketing images, following the same
+ * steps as the app: score the pages, pick the best ones, then compose each
+ * size with the style's layout, background, text and branding.
+ */
+export const renderPdf = async ({
+  data, fileName, style, pages, formats, password = null, loadAsset, signal
+}: RenderRequest): Promise<RenderedPdf> => {
+  const doc = await openDocument(data, password);
+  try {
+    const metadata = await doc.getMetadata().catch(() => null);
+    const title = (metadata?.info as { Title?: string } | undefined)?.Title?.trim() || fileName.replace(/\.pdf$/i, '');
+    const { settings, backgroundStyle, brandLayers } = style;
+    const template = getLayoutTemplate(settings.templateId);
+
+    pages?.forEach(pageNum => {
+      if (pageNum !== null && (!Number.isInteger(pageNum) || pageNum < 1 || pageNum > doc.numPages)) {
+        throw new RenderError(`Page ${pageNum} is not in ${fileName}, which has ${doc.numPages} pages`);
+      }
+    });
+
+    // Scores pick the pages and palettes colour the background; skip the scan when neither is needed
+    const pageErrors: RenderedPdf['pageErrors'] = [];
+    const scanned: { score: number | null; palette: PaletteColor[] | null }[] = [];
+    const needsScan = !pages || backgroundStyle.kind === 'palette' || backgroundStyle.kind === 'cover-page';
+    for (let pageNum = 1; needsScan && pageNum <= doc.numPages; pageNum++) {
+      throwIfAborted(signal);
+      try {
+        const { page, canvas, context } = await renderPage(doc, pageNum, THUMBNAIL_WIDTH);
+        const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+        scanned.push({ score: scorePage(await measurePage(page, pixels)), palette: extractPalette(pixels) });
+        page.cleanup();
+      } catch (error) {
+        pageErrors.push({ pageNum, message: describePdfError(error) });
+        scanned.push({ score: null, palette: null });
+      }
+    }
+    if (needsScan && pageErrors.length === doc.numPages) {
+      throw new RenderError("None of this PDF's pages could be rendered");
+    }
+    const selectedPages = pages
+      ? resizeSlotSelection(template, pages, doc.numPages)
+      : suggestPages(template, scanned.map(page => page.score));
+
+    // Full-resolution pages, each rendered once however many sizes use it
+    const pageImages = new Map<number, Promise<NodeCanvas | null>>();
+    const pageImage = (pageNum: number) => {
+      if (!pageImages.has(pageNum)) {
+        pageImages.set(pageNum, renderPage(doc, pageNum, null).then(({ canvas }) => canvas, (error) => {
+          // A damaged page leaves its slot empty rather than failing the whole image
+          if (!pageErrors.some(failed => failed.pageNum === pageNum)) {
+            pageErrors.push({ pageNum, message: describePdfError(error) });
+          }
+          return null;
+        }));
+      }
+      return pageImages.get(pageNum)!;
+    };
+    const slotImages = await Promise.all(selectedPages.map(pageNum => (pageNum ? pageImage(pageNum) : null)));
+
+    let backgroundImage: SceneImage | null = null;
+    if (backgroundStyle.kind === 'image' && style.backgroundImage) {
+      backgroundImage = await loadAssetImage(style.backgroundImage, loadAsset);
+    } else if (backgroundStyle.kind === 'cover-page') {
+      backgroundImage = await pageImage(1) as unknown as SceneImage | null;
+    }
+    const logoImage = brandLayers.logo.imageUrl ? await loadAssetImage(brandLayers.logo.imageUrl, loadAsset) : null;
+
+    const source = {
+      settings,
+      textLayers: applyPresetTextLayers(style.textLayers, createDefaultTextLayers(title)),
+      pageImages: slotImages as unknown as (SceneImage | null)[],
+      backgroundStyle,
+      backgroundImage,
+      palette: documentPalette(scanned),
+      brandLayers,
+      logoImage
+    };
+    const images: MarketingImage[] = [];
+    for (const presetId of settings.outputPresetIds) {
+      const size = resolveOutputSize(presetId, { width: settings.customWidth, height: settings.customHeight });
+      for (const format of formats ?? [style.exportSettings.format]) {
+        throwIfAborted(signal);
+        const canvas = renderScene(composeScene(source, size).scene, createNodeCanvas);
+        const encoded = encodeCanvas(canvas as unknown as HTMLCanvasElement, { ...style.exportSettings, format });
+        images.push({ ...encoded, presetId, width: size.width, height: size.height, selectedPages, settings });
+      }
+    }
+    return { title, pageCount: doc.numPages, selectedPages, images, pageErrors };
+  } finally {
+    await doc.destroy();
+  }
+};
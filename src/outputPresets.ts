@@ -0,0 +1,57 @@
+import { CanvasSize } from './layoutTemplates.ts';
+
+export interface OutputPreset {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+export const CUSTOM_PRESET_ID = 'custom';
+
+export const OUTPUT_PRESETS: OutputPreset[] = [
+  { id: 'widescreen', name: 'Widescreen (1280×720)', width: 1280, height: 720 },
+  { id: 'linkedin', name: 'LinkedIn post (1200×627)', width: 1200, height: 627 },
+  { id: 'instagram-square', name: 'Instagram square (1080×1080)', width: 1080, height: 1080 },
+  { id: 'instagram-portrait', name: 'Instagram portrait (1080×1350)', width: 1080, height: 1350 },
+  { id: 'x-card', name: 'X/Twitter card (1200×675)', width: 1200, height: 675 },
+  { id: 'open-graph', name: 'Open Graph preview (1200×630)', width: 1200, height: 630 },
+  { id: 'email-header', name: 'Email header (600×200)', width: 600, height: 200 }
+];
+
+export const DEFAULT_OUTPUT_PRESET_ID = 'widescreen';
+
+export const MIN_OUTPUT_DIMENSION = 100;
+export const MAX_OUTPUT_DIMENSION = 4096;
+
+export const getOutputPresetName = (presetId: string): string =>
+  presetId === CUSTOM_PRESET_ID
+    ? 'Custom size'
+    : OUTPUT_PRESETS.find(preset => preset.id === presetId)?.name ?? presetId;
+
+// Resolve a preset id to pixel dimensions, using customSize for the custom preset
+export const resolveOutputSize = (presetId: string, customSize: CanvasSize): CanvasSize => {
+  if (presetId === CUSTOM_PRESET_ID) {
+    const clamp = (value: number) =>
+      Math.round(Math.min(MAX_OUTPUT_DIMENSION, Math.max(MIN_OUTPUT_DIMENSION, value)));
+    return { width: clamp(customSize.width), height: clamp(customSize.height) };
+  }
+  const preset = OUTPUT_PRESETS.find(p => p.id === presetId)
+    ?? OUTPUT_PRESETS.find(p => p.id === DEFAULT_OUTPUT_PRESET_ID)!;
+  return { width: preset.width, height: preset.height };
+};
+
+/**
+ * Read an output size given as text, either a preset id or a custom size such
+ * as 1600x900. Throws with a message fit to show when it is neither.
+ */
+export const parseOutputSize = (value: string): { presetId: string; width?: number; height?: number } => {
+  if (OUTPUT_PRESETS.some(preset => preset.id === value)) return { presetId: value };
+  const match = /^(\d+)x(\d+)$/i.exec(value.trim());
+  if (!match) throw new Error(`Unknown size "${value}"`);
+  const [width, height] = [Number(match[1]), Number(match[2])];
+  if ([width, height].some(n => n < MIN_OUTPUT_DIMENSION || n > MAX_OUTPUT_DIMENSION)) {
+    throw new Error(`Sizes must be between ${MIN_OUTPUT_DIMENSION} and ${MAX_OUTPUT_DIMENSION} pixels`);
+  }
+  return { presetId: CUSTOM_PRESET_ID, width, height };
+};
@@ -0,0 +1,232 @@
+import * as pdfjsLib from 'pdfjs-dist';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import {
+  PAGE_RENDER_SCALE, RasterRequestBody, RasterResponse, RasterResult, THUMBNAIL_WIDTH
+} from './rasterProtocol.ts';
+import { PageStats, measurePage } from './pageScoring.ts';
+import { PasswordRequiredError } from './pdfErrors.ts';
+import { PaletteColor, extractPalette } from './colorPalette.ts';
+
+// Initialize PDF.js worker
+pdfjsLib.GlobalWorkerOptions.workerSrc = window.location.origin + '/pdf.worker.min.js';
+
+// Full-resolution pages kept in memory per document before the least recently used is dropped
+const PAGE_CACHE_SIZE = 12;
+
+export type PageImage = ImageBitmap | HTMLCanvasElement;
+
+export interface PageThumbnail {
+  blob: Blob;
+  // Used to score the page when suggesting which pages to show
+  stats: PageStats;
+  // Dominant colours, for backgrounds and text that match the document
+  palette: PaletteColor[];
+}
+
+export interface RasterDocument {
+  numPages: number;
+  title: string | null;
+  renderThumbnail: (pageNum: number) => Promise<PageThumbnail>;
+  // Rendered on first use, then served from an LRU cache
+  getPageImage: (pageNum: number) => Promise<PageImage>;
+  destroy: () => void;
+  // Lets callers tell a removed document apart from a page that failed to render
+  isDestroyed: () => boolean;
+}
+
+export type PasswordReason = 'required' | 'incorrect';
+// Asked for a password whenever a PDF needs one; resolve with null to give up
+export type PasswordPrompt = (reason: PasswordReason) => Promise<string | null>;
+
+type PageRenderer = (pageNum: number) => Promise<PageImage>;
+
+// Wrap a page renderer in a small LRU cache, releasing bitmaps as they fall out
+const cachedPages = (render: PageRenderer): { get: PageRenderer; clear: () => void } => {
+  const cache = new Map<number, Promise<PageImage>>();
+  const release = (entry: Promise<PageImage>) => {
+    entry.then(image => 'close' in image && image.close()).catch(() => undefined);
+  };
+  return {
+    get: (pageNum) => {
+      let entry = cache.get(pageNum);
+      if (entry) {
+        cache.delete(pageNum);
+      } else {
+        entry = render(pageNum);
+        // Don't cache failures; the next call should try again
+        entry.catch(() => cache.delete(pageNum));
+      }
+      cache.set(pageNum, entry);
+      if (cache.size > PAGE_CACHE_SIZE) {
+        const [oldestPage, oldest] = cache.entries().next().value as [number, Promise<PageImage>];
+        cache.delete(oldestPage);
+        release(oldest);
+      }
+      return entry;
+    },
+    clear: () => {
+      cache.forEach(release);
+      cache.clear();
+    }
+  };
+};
+
+class RasterWorkerClient {
+  private worker: Worker;
+  private nextId = 1;
+  private pending = new Map<number, { resolve: (response: RasterResult) => void; reject: (error: Error) => void }>();
+
+  constructor() {
+    this.worker = new Worker(new URL('./rasterWorker.ts', import.meta.url));
+    this.worker.onmessage = (event: MessageEvent<RasterResponse>) => {
+      const response = event.data;
+      const handlers = this.pending.get(response.id);
+      if (!handlers) return;
+      this.pending.delete(response.id);
+      if (response.ok) {
+        handlers.resolve(response);
+      } else {
+        // Keep pdf.js exception names (PasswordException, InvalidPDFException, ...) for callers
+        const error = new Error(response.message);
+        error.name = response.name;
+        handlers.reject(error);
+      }
+    };
+    this.worker.onerror = (event) => {
+      const error = new Error(event.message || 'Rasterizer worker failed');
+      this.pending.forEach(({ reject }) => reject(error));
+      this.pending.clear();
+    };
+  }
+
+  request(request: RasterRequestBody, transfer: Transferable[] = []): Promise<RasterResult> {
+    const id = this.nextId++;
+    return new Promise((resolve, reject) => {
+      this.pending.set(id, { resolve, reject });
+      this.worker.postMessage({ ...request, id }, transfer);
+    });
+  }
+}
+
+let workerClient: RasterWorkerClient | null = null;
+let workerUnavailable = typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined';
+
+const openInWorker = async (file: Blob, password: string | null): Promise<RasterDocument> => {
+  if (!workerClient) workerClient = new RasterWorkerClient();
+  const client = workerClient;
+  const data = await file.arrayBuffer();
+  const opened = await client.request({ type: 'open', data, password }, [data]);
+  if (opened.type !== 'opened') throw new Error('Unexpected rasterizer response');
+  const { docId, numPages, title } = opened;
+  let destroyed = false;
+
+  const render = (pageNum: number, output: 'thumbnail' | 'bitmap', targetWidth: number | null) =>
+    client.request({ type: 'render', docId, pageNum, scale: PAGE_RENDER_SCALE, targetWidth, output });
+  const pages = cachedPages(async (pageNum) => {
+    const response = await render(pageNum, 'bitmap', null);
+    if (response.type !== 'bitmap') throw new Error('Unexpected rasterizer response');
+    return response.bitmap;
+  });
+
+  return {
+    numPages,
+    title,
+    renderThumbnail: async (pageNum) => {
+      const response = await render(pageNum, 'thumbnail', THUMBNAIL_WIDTH);
+      if (response.type !== 'thumbnail') throw new Error('Unexpected rasterizer response');
+      return { blob: response.blob, stats: response.stats, palette: response.palette };
+    },
+    getPageImage: pages.get,
+    destroy: () => {
+      destroyed = true;
+      pages.clear();
+      client.request({ type: 'close', docId }).catch(() => undefined);
+    },
+    isDestroyed: () => destroyed
+  };
+};
+
+const renderOnMainThread = async (doc: PDFDocumentProxy, pageNum: number, scale: number | null) => {
+  const page = await doc.getPage(pageNum);
+  const viewport = page.getViewport({ scale: scale ?? THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width });
+  const canvas = document.createElement('canvas');
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Could not get canvas context');
+  canvas.width = viewport.width;
+  canvas.height = viewport.height;
+  await page.render({ canvasContext: context, viewport }).promise;
+  return { page, canvas, context };
+};
+
+const openOnMainThread = async (file: Blob, password: string | null): Promise<RasterDocument> => {
+  const doc = await pdfjsLib.getDocument({ data: await file.arrayBuffer(), password: password ?? undefined }).promise;
+  let destroyed = false;
+  const metadata = await doc.getMetadata().catch(() => null);
+  const pages = cachedPages(async (pageNum) => {
+    const { page, canvas } = await renderOnMainThread(doc, pageNum, PAGE_RENDER_SCALE);
+    page.cleanup();
+    return typeof createImageBitmap === 'function' ? createImageBitmap(canvas) : canvas;
+  });
+
+  return {
+    numPages: doc.numPages,
+    title: (metadata?.info as { Title?: string } | undefined)?.Title ?? null,
+    renderThumbnail: async (pageNum) => {
+      const { page, canvas, context } = await renderOnMainThread(doc, pageNum, null);
+      const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+      const stats = await measurePage(page, pixels);
+      page.cleanup();
+      const blob = await new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob(result => (result ? resolve(result) : reject(new Error('Could not encode thumbnail'))), 'image/png');
+      });
+      return { blob, stats, palette: extractPalette(pixels) };
+    },
+    getPageImage: pages.get,
+    destroy: () => {
+      destroyed = true;
+      pages.clear();
+      doc.destroy();
+    },
+    isDestroyed: () => destroyed
+  };
+};
+
+// pdf.js errors that mean the file itself is the problem, not the worker. Parse
+// failures such as FormatError reach us as UnknownErrorException.
+const DOCUMENT_ERRORS = [
+  'PasswordException', 'InvalidPDFException', 'MissingPDFException', 'UnexpectedResponseException',
+  'UnknownErrorException'
+];
+
+const openWithPassword = async (file: Blob, password: string | null): Promise<RasterDocument> => {
+  if (!workerUnavailable) {
+    try {
+      return await openInWorker(file, password);
+    } catch (error: any) {
+      if (DOCUMENT_ERRORS.includes(error?.name)) throw error;
+      console.warn('Worker rasterization unavailable, rendering on the main thread:', error);
+      workerUnavailable = true;
+    }
+  }
+  return openOnMainThread(file, password);
+};
+
+/**
+ * Open a PDF for rasterization, off the main thread when the browser supports
+ * OffscreenCanvas in workers and on the main thread otherwise. Encrypted PDFs
+ * ask `onPassword` until the password is right or it gives up, in which case
+ * this throws a PasswordRequiredError.
+ */
+export const openPdfDocument = async (file: Blob, onPassword?: PasswordPrompt): Promise<RasterDocument> => {
+  let password: string | null = null;
+  for (;;) {
+    try {
+      return await openWithPassword(file, password);
+    } catch (error: any) {
+      if (error?.name !== 'PasswordException' || !onPassword) throw error;
+      const next = await onPassword(password === null ? 'required' : 'incorrect');
+      if (next === null) throw new PasswordRequiredError();
+      password = next;
+    }
+  }
+};
@@ -0,0 +1,57 @@
+import { OPS } from 'pdfjs-dist';
+import { getLayoutTemplate } from './layoutTemplates.ts';
+import {
+  PageStats, displayScore, measureOperators, measurePixels, scorePage, suggestPages
+} from './pageScoring.ts';
+
+const solid = (pixels: number, r: number, g: number, b: number) => {
+  const data = new Uint8ClampedArray(pixels * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data.set([r, g, b, 255], i);
+  }
+  return data;
+};
+
+const stats = (overrides: Partial<PageStats>): PageStats => ({
+  whiteness: 0.5,
+  colorfulness: 0,
+  contrast: 0,
+  textChars: 0,
+  imageCount: 0,
+  pathCount: 0,
+  ...overrides
+});
+
+test('white pages are measured as fully white and score lowest', () => {
+  const measured = measurePixels(solid(100, 255, 255, 255));
+  expect(measured).toEqual({ whiteness: 1, colorfulness: 0, contrast: 0 });
+  expect(displayScore(scorePage(stats(measured)))).toBe(0);
+  expect(scorePage(stats(measured))).toBeLessThan(scorePage(stats({ whiteness: 0.9, textChars: 4000 })));
+});
+
+test('colourful image pages outscore dense text pages', () => {
+  const photo = stats({ whiteness: 0.1, colorfulness: 70, contrast: 60, imageCount: 2 });
+  const contents = stats({ whiteness: 0.9, colorfulness: 2, contrast: 40, textChars: 4000 });
+  expect(scorePage(photo)).toBeGreaterThan(80);
+  expect(scorePage(contents)).toBeLessThan(scorePage(photo));
+});
+
+test('lighter text pages rank above denser ones, though both show as zero', () => {
+  // Little colour and a lot of words, as in most pages of a technical manual
+  const denser = stats({ whiteness: 0.95, colorfulness: 1, contrast: 30, textChars: 2800 });
+  const lighter = stats({ whiteness: 0.93, colorfulness: 1, contrast: 20, textChars: 1500 });
+  expect(displayScore(scorePage(denser))).toBe(0);
+  expect(displayScore(scorePage(lighter))).toBe(0);
+  expect(suggestPages(getLayoutTemplate('hero'), [null, scorePage(denser), scorePage(lighter)])).toEqual([3]);
+});
+
+test('operator counts pick out images and paths', () => {
+  const fnArray = [OPS.paintImageXObject, OPS.constructPath, OPS.constructPath, OPS.showText];
+  expect(measureOperators(fnArray)).toEqual({ imageCount: 1, pathCount: 2 });
+});
+
+test('best pages go to the most prominent slots', () => {
+  // fan-3 slots default to pages 2, 1, 3, so the center slot is the hero
+  expect(suggestPages(getLayoutTemplate('fan-3'), [0, 20, 90, null, 60])).toEqual([5, 3, 2]);
+  expect(suggestPages(getLayoutTemplate('fan-3'), [40])).toEqual([1, 1, 1]);
+});
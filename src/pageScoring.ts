@@ -0,0 +1,115 @@
+import { OPS, PDFPageProxy } from 'pdfjs-dist';
+import { LayoutTemplate } from './layoutTemplates.ts';
+
+export interface PageStats {
+  // Share of pixels that are near-white (0-1)
+  whiteness: number;
+  // Hasler–Süsstrunk colourfulness, roughly 0 (greyscale) to 100+ (vivid)
+  colorfulness: number;
+  // Standard deviation of luminance (0-128)
+  contrast: number;
+  textChars: number;
+  imageCount: number;
+  pathCount: number;
+}
+
+// Pages whiter than this are treated as blank (inside covers, separator pages)
+const BLANK_WHITENESS = 0.985;
+const NEAR_WHITE = 245;
+
+// Covers usually make the best hero image, so page 1 gets a head start when suggesting
+const COVER_BONUS = 10;
+
+// Below anything a page with content can score, however much text it holds
+const BLANK_SCORE = -100;
+
+export const measurePixels = (data: Uint8ClampedArray): Pick<PageStats, 'whiteness' | 'colorfulness' | 'contrast'> => {
+  const pixels = data.length / 4;
+  if (pixels === 0) return { whiteness: 1, colorfulness: 0, contrast: 0 };
+
+  let white = 0;
+  let rgSum = 0, rgSq = 0, ybSum = 0, ybSq = 0, lumSum = 0, lumSq = 0;
+  for (let i = 0; i < data.length; i += 4) {
+    const r = data[i], g = data[i + 1], b = data[i + 2];
+    if (r > NEAR_WHITE && g > NEAR_WHITE && b > NEAR_WHITE) white++;
+    const rg = r - g;
+    const yb = (r + g) / 2 - b;
+    const lum = 0.299 * r + 0.587 * g + 0.114 * b;
+    rgSum += rg; rgSq += rg * rg;
+    ybSum += yb; ybSq += yb * yb;
+    lumSum += lum; lumSq += lum * lum;
+  }
+
+  const std = (sum: number, sq: number) => Math.sqrt(Math.max(0, sq / pixels - (sum / pixels) ** 2));
+  const rgMean = rgSum / pixels;
+  const ybMean = ybSum / pixels;
+  return {
+    whiteness: white / pixels,
+    colorfulness: Math.hypot(std(rgSum, rgSq), std(ybSum, ybSq)) + 0.3 * Math.hypot(rgMean, ybMean),
+    contrast: std(lumSum, lumSq)
+  };
+};
+
+const IMAGE_OPS = new Set<number>([
+  OPS.paintImageXObject,
+  OPS.paintInlineImageXObject,
+  OPS.paintImageXObjectRepeat
+]);
+
+export const measureOperators = (fnArray: number[]): Pick<PageStats, 'imageCount' | 'pathCount'> => ({
+  imageCount: fnArray.filter(fn => IMAGE_OPS.has(fn)).length,
+  pathCount: fnArray.filter(fn => fn === OPS.constructPath).length
+});
+
+/**
+ * Gather the statistics used for scoring from a rendered page: its pixels plus
+ * the text and drawing operations pdf.js reports for it.
+ */
+export const measurePage = async (page: PDFPageProxy, pixels: Uint8ClampedArray): Promise<PageStats> => {
+  const [textContent, operatorList] = await Promise.all([page.getTextContent(), page.getOperatorList()]);
+  const textChars = textContent.items.reduce((total, item) => total + ('str' in item ? item.str.length : 0), 0);
+  return { ...measurePixels(pixels), textChars, ...measureOperators(operatorList.fnArray) };
+};
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+/**
+ * High for colourful, image-rich pages, low for blank or wall-of-text pages. Text
+ * pages go below zero, and how far says how dense they are, so rank on this score
+ * and show it through `displayScore`.
+ */
+export const scorePage = (stats: PageStats): number => {
+  if (stats.whiteness >= BLANK_WHITENESS) return BLANK_SCORE;
+  const score =
+    0.3 * clamp01(stats.colorfulness / 60) +
+    0.2 * clamp01(stats.imageCount / 2) +
+    0.1 * clamp01(stats.pathCount / 150) +
+    0.2 * clamp01((1 - stats.whiteness) * 2.5) +
+    0.2 * clamp01(stats.contrast / 80) -
+    0.3 * clamp01(stats.textChars / 3000);
+  return Math.round(100 * score);
+};
+
+// The score out of 100 shown on thumbnails
+export const displayScore = (score: number): number => Math.min(100, Math.max(0, score));
+
+/**
+ * Fill the template's slots with the highest scoring pages, the best page going
+ * to the most prominent slot (the one that defaults to page 1). Unscored pages
+ * rank below every scored one.
+ */
+export const suggestPages = (template: LayoutTemplate, scores: (number | null)[]): (number | null)[] => {
+  const ranked = scores
+    .map((score, i) => ({ pageNum: i + 1, rank: score === null ? -Infinity : score + (i === 0 ? COVER_BONUS : 0) }))
+    .sort((a, b) => b.rank - a.rank || a.pageNum - b.pageNum);
+  const prominence = template.slots
+    .map((slot, slotIndex) => ({ slotIndex, defaultPage: slot.defaultPage }))
+    .sort((a, b) => a.defaultPage - b.defaultPage);
+
+  const selection: (number | null)[] = template.slots.map(() => null);
+  prominence.forEach(({ slotIndex }, i) => {
+    // Short documents repeat their best pages rather than leaving slots empty
+    selection[slotIndex] = ranked.length > 0 ? ranked[i % ranked.length].pageNum : null;
+  });
+  return selection;
+};
@@ -0,0 +1,91 @@
+import { hexToRgba, roundedRectPath } from './canvasUtils.ts';
+
+// Lengths are in reference canvas pixels and scale with the output size
+export interface PageStyle {
+  shadowBlur: number;
+  shadowOffsetX: number;
+  shadowOffsetY: number;
+  shadowColor: string;
+  shadowOpacity: number;
+  borderWidth: number;
+  borderColor: string;
+  cornerRadius: number;
+  // 0-1 strength of the glossy sheen and page-curl shading
+  sheen: number;
+}
+
+export const DEFAULT_PAGE_STYLE: PageStyle = {
+  shadowBlur: 24,
+  shadowOffsetX: 0,
+  shadowOffsetY: 8,
+  shadowColor: '#000000',
+  shadowOpacity: 0.35,
+  borderWidth: 0,
+  borderColor: '#ffffff',
+  cornerRadius: 0,
+  sheen: 0
+};
+
+/**
+ * Draw a page centered on the current origin, so callers can translate and
+ * rotate the context first exactly as they would for a bare drawImage.
+ */
+export const drawStyledPage = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource,
+  width: number,
+  height: number,
+  style: PageStyle,
+  scale: number
+) => {
+  const x = -width / 2;
+  const y = -height / 2;
+  const radius = style.cornerRadius * scale;
+
+  // Shadow is cast by an opaque card behind the page so transparent PDFs still get one
+  if (style.shadowBlur > 0 || style.shadowOffsetX !== 0 || style.shadowOffsetY !== 0) {
+    ctx.save();
+    ctx.shadowColor = hexToRgba(style.shadowColor, style.shadowOpacity);
+    ctx.shadowBlur = style.shadowBlur * scale;
+    ctx.shadowOffsetX = style.shadowOffsetX * scale;
+    ctx.shadowOffsetY = style.shadowOffsetY * scale;
+    ctx.fillStyle = '#ffffff';
+    roundedRectPath(ctx, x, y, width, height, radius);
+    ctx.fill();
+    ctx.restore();
+  }
+
+  ctx.save();
+  roundedRectPath(ctx, x, y, width, height, radius);
+  ctx.clip();
+  ctx.drawImage(img, x, y, width, height);
+
+  if (style.sheen > 0) {
+    // Diagonal highlight across the page
+    const gloss = ctx.createLinearGradient(x, y, x + width, y + height);
+    gloss.addColorStop(0, `rgba(255, 255, 255, ${0.35 * style.sheen})`);
+    gloss.addColorStop(0.45, 'rgba(255, 255, 255, 0)');
+    gloss.addColorStop(1, `rgba(0, 0, 0, ${0.15 * style.sheen})`);
+    ctx.fillStyle = gloss;
+    ctx.fillRect(x, y, width, height);
+
+    // Darken towards the binding edge and lift the outer edge, like a page that curls slightly
+    const curl = ctx.createLinearGradient(x, 0, x + width, 0);
+    curl.addColorStop(0, `rgba(0, 0, 0, ${0.2 * style.sheen})`);
+    curl.addColorStop(0.08, 'rgba(0, 0, 0, 0)');
+    curl.addColorStop(0.92, 'rgba(255, 255, 255, 0)');
+    curl.addColorStop(1, `rgba(255, 255, 255, ${0.25 * style.sheen})`);
+    ctx.fillStyle = curl;
+    ctx.fillRect(x, y, width, height);
+  }
+  ctx.restore();
+
+  if (style.borderWidth > 0) {
+    ctx.save();
+    ctx.lineWidth = style.borderWidth * scale;
+    ctx.strokeStyle = style.borderColor;
+    roundedRectPath(ctx, x, y, width, height, radius);
+    ctx.stroke();
+    ctx.restore();
+  }
+};
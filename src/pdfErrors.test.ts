@@ -0,0 +1,25 @@
+import { PasswordRequiredError, describePdfError } from './pdfErrors.ts';
+
+const pdfjsError = (name: string, message: string) => {
+  const error = new Error(message);
+  error.name = name;
+  return error;
+};
+
+test('known pdf.js exceptions get specific messages', () => {
+  expect(describePdfError(pdfjsError('InvalidPDFException', 'Invalid PDF structure.')))
+    .toBe("The file is damaged or isn't a PDF");
+  expect(describePdfError(pdfjsError('InvalidPDFException', 'The PDF file is empty, i.e. its size is zero bytes.')))
+    .toBe('The file is empty');
+  expect(describePdfError(pdfjsError('PasswordException', 'No password given'))).toBe('This PDF is password protected');
+  expect(describePdfError(new PasswordRequiredError())).toBe('This PDF is password protected');
+});
+
+test('truncated and damaged files are told apart from other failures', () => {
+  expect(describePdfError(pdfjsError('UnknownErrorException', 'Invalid XRef stream header')))
+    .toBe('The PDF is incomplete; it may not have finished downloading or copying');
+  expect(describePdfError(pdfjsError('FormatError', 'Unknown compression method in flate stream')))
+    .toBe('The PDF is damaged (Unknown compression method in flate stream)');
+  expect(describePdfError(new Error('Rasterizer worker failed'))).toBe('Rasterizer worker failed');
+  expect(describePdfError(undefined)).toBe('Unknown error');
+});
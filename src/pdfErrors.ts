@@ -0,0 +1,38 @@
+// pdf.js reports problems with exception names and terse messages; these turn them
+// into something that tells the user what is wrong with their file.
+
+// Thrown when a PDF needs a password and the user declined to give one
+export class PasswordRequiredError extends Error {
+  constructor() {
+    super('This PDF is password protected');
+    this.name = 'PasswordRequiredError';
+  }
+}
+
+// Signs of a file that stops part way through, usually an interrupted download or copy
+const TRUNCATED_PATTERN = /startxref|xref|end of (file|stream)|bad end offset|unexpected end/i;
+
+export const describePdfError = (error: unknown): string => {
+  const { name, message } = error instanceof Error ? error : { name: '', message: String(error ?? '') };
+  if (error instanceof PasswordRequiredError) return error.message;
+
+  switch (name) {
+    case 'PasswordException':
+      return 'This PDF is password protected';
+    case 'MissingPDFException':
+      return 'The PDF file could not be found';
+    case 'UnexpectedResponseException':
+      return 'The PDF could not be downloaded';
+    case 'InvalidPDFException':
+      if (/empty|zero bytes/i.test(message)) return 'The file is empty';
+      if (TRUNCATED_PATTERN.test(message)) break;
+      return "The file is damaged or isn't a PDF";
+  }
+  if (TRUNCATED_PATTERN.test(message)) {
+    return 'The PDF is incomplete; it may not have finished downloading or copying';
+  }
+  if (name === 'FormatError' || /^(bad|invalid|unknown|unsupported) /i.test(message)) {
+    return `The PDF is damaged (${message})`;
+  }
+  return message || 'Unknown error';
+};
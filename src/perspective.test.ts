@@ -0,0 +1,62 @@
+import {
+  Point, Quad, applyHomography, drawImageToQuad, project, rotateY, squareToQuad
+} from './perspective.ts';
+
+const expectPoint = (actual: { x: number; y: number }, x: number, y: number) => {
+  expect(actual.x).toBeCloseTo(x);
+  expect(actual.y).toBeCloseTo(y);
+};
+
+test('squareToQuad maps the unit square corners onto a perspective quad', () => {
+  const quad: Quad = [{ x: 10, y: 20 }, { x: 200, y: 0 }, { x: 180, y: 300 }, { x: 30, y: 250 }];
+  const m = squareToQuad(quad);
+  expectPoint(applyHomography(m, 0, 0), 10, 20);
+  expectPoint(applyHomography(m, 1, 0), 200, 0);
+  expectPoint(applyHomography(m, 1, 1), 180, 300);
+  expectPoint(applyHomography(m, 0, 1), 30, 250);
+});
+
+test('parallelograms produce an affine mapping', () => {
+  const m = squareToQuad([{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 120, y: 50 }, { x: 20, y: 50 }]);
+  expect(m.g).toBe(0);
+  expect(m.h).toBe(0);
+  expectPoint(applyHomography(m, 0.5, 0.5), 60, 25);
+});
+
+test('turning a page away from the viewer shrinks its far edge', () => {
+  const focal = 1000;
+  const near = project(rotateY({ x: -100, y: 100, z: 0 }, -30), focal);
+  const far = project(rotateY({ x: 100, y: 100, z: 0 }, -30), focal);
+  expect(Math.abs(far.y)).toBeLessThan(Math.abs(near.y));
+});
+
+test('mesh cells overlap by a device pixel across shared edges only', () => {
+  // Drawn at 2x, so a device pixel is half a unit
+  const clips: Point[][] = [];
+  let path: Point[] = [];
+  const ctx = {
+    getTransform: () => ({ a: 2, b: 0, c: 0, d: 2 }),
+    beginPath: () => { path = []; },
+    moveTo: (x: number, y: number) => path.push({ x, y }),
+    lineTo: (x: number, y: number) => path.push({ x, y }),
+    clip: () => clips.push(path),
+    save: () => undefined,
+    restore: () => undefined,
+    closePath: () => undefined,
+    transform: () => undefined,
+    drawImage: () => undefined
+  } as unknown as CanvasRenderingContext2D;
+  const img = { width: 100, height: 100 } as unknown as HTMLCanvasElement;
+  drawImageToQuad(ctx, img, [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }]);
+
+  // One cell split along its diagonal: only the diagonal moves, by half a unit each way
+  const [upper, lower] = clips;
+  expectPoint(upper[1], 100, 0);
+  expect(upper[0].y).toBeCloseTo(0);
+  expect(upper[2].x).toBeCloseTo(100);
+  expect((upper[0].x - upper[0].y) / Math.SQRT2).toBeCloseTo(-0.5);
+  expectPoint(lower[2], 0, 100);
+  expect(lower[0].x).toBeCloseTo(0);
+  expect(lower[1].y).toBeCloseTo(100);
+  expect((lower[0].x - lower[0].y) / Math.SQRT2).toBeCloseTo(0.5);
+});
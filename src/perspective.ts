@@ -0,0 +1,207 @@
+// Projective image warping for canvas 2D. Canvas can only draw affine transforms,
+// so a perspective quad is split into a mesh of small triangles, each drawn with
+// its own affine transform. Cells overlap their neighbours by a device pixel so
+// antialiased clip edges don't show as seams, and enough cells hide the distortion.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Point3 {
+  x: number;
+  y: number;
+  z: number;
+}
+
+// Corners in order: top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface SourceRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface Homography {
+  a: number; b: number; c: number;
+  d: number; e: number; f: number;
+  g: number; h: number;
+}
+
+// Closed-form mapping of the unit square onto an arbitrary quad (Heckbert, 1989)
+export const squareToQuad = ([p0, p1, p2, p3]: Quad): Homography => {
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  if (Math.abs(dx3) < 1e-9 && Math.abs(dy3) < 1e-9) {
+    // Parallelogram: the mapping is affine
+    return {
+      a: p1.x - p0.x, b: p3.x - p0.x, c: p0.x,
+      d: p1.y - p0.y, e: p3.y - p0.y, f: p0.y,
+      g: 0, h: 0
+    };
+  }
+
+  const den = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / den;
+  const h = (dx1 * dy3 - dx3 * dy1) / den;
+  return {
+    a: p1.x - p0.x + g * p1.x, b: p3.x - p0.x + h * p3.x, c: p0.x,
+    d: p1.y - p0.y + g * p1.y, e: p3.y - p0.y + h * p3.y, f: p0.y,
+    g, h
+  };
+};
+
+export const applyHomography = (m: Homography, u: number, v: number): Point => {
+  const w = m.g * u + m.h * v + 1;
+  return { x: (m.a * u + m.b * v + m.c) / w, y: (m.d * u + m.e * v + m.f) / w };
+};
+
+/**
+ * Push the chosen edges of a triangle outwards by `amount`, keeping them
+ * parallel, so cells overlap their neighbours instead of meeting at antialiased
+ * edges that leave hairline seams. Edge i runs from point i to point i + 1.
+ */
+const expandTriangle = (points: Point[], amount: number, edges: boolean[]): Point[] => {
+  const cx = (points[0].x + points[1].x + points[2].x) / 3;
+  const cy = (points[0].y + points[1].y + points[2].y) / 3;
+  const normals = points.map((p, i) => {
+    const q = points[(i + 1) % 3];
+    const length = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+    const n = { x: (q.y - p.y) / length, y: (p.x - q.x) / length };
+    // Point away from the centroid
+    return (p.x - cx) * n.x + (p.y - cy) * n.y < 0 ? { x: -n.x, y: -n.y } : n;
+  });
+  return points.map((p, i) => {
+    // The corner moves where its two offset edges meet, capped for very sharp corners
+    const before = (i + 2) % 3;
+    const d1 = edges[before] ? amount : 0;
+    const d2 = edges[i] ? amount : 0;
+    const n1 = normals[before];
+    const n2 = normals[i];
+    const det = n1.x * n2.y - n1.y * n2.x;
+    if (Math.abs(det) < 1e-9) return p;
+    let dx = (d1 * n2.y - d2 * n1.y) / det;
+    let dy = (d2 * n1.x - d1 * n2.x) / det;
+    const length = Math.hypot(dx, dy);
+    const limit = amount * 4;
+    if (length > limit) {
+      dx *= limit / length;
+      dy *= limit / length;
+    }
+    return { x: p.x + dx, y: p.y + dy };
+  });
+};
+
+// Length in the current coordinate space that covers at least one device pixel
+const devicePixel = (ctx: CanvasRenderingContext2D): number => {
+  const { a, b, c, d } = ctx.getTransform();
+  const scale = Math.min(Math.hypot(a, b), Math.hypot(c, d));
+  return scale > 1e-9 ? 1 / scale : 1;
+};
+
+const drawTriangle = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource,
+  src: Point[],
+  dst: Point[],
+  overlap: number,
+  // Edges shared with another cell; the quad's outline is left where it is
+  innerEdges: boolean[]
+) => {
+  const u1x = src[1].x - src[0].x;
+  const u1y = src[1].y - src[0].y;
+  const u2x = src[2].x - src[0].x;
+  const u2y = src[2].y - src[0].y;
+  const det = u1x * u2y - u2x * u1y;
+  if (Math.abs(det) < 1e-9) return;
+
+  const v1x = dst[1].x - dst[0].x;
+  const v1y = dst[1].y - dst[0].y;
+  const v2x = dst[2].x - dst[0].x;
+  const v2y = dst[2].y - dst[0].y;
+
+  // Affine matrix that takes the source triangle onto the destination triangle
+  const a = (v1x * u2y - v2x * u1y) / det;
+  const b = (v1y * u2y - v2y * u1y) / det;
+  const c = (v2x * u1x - v1x * u2x) / det;
+  const d = (v2y * u1x - v1y * u2x) / det;
+  const e = dst[0].x - (a * src[0].x + c * src[0].y);
+  const f = dst[0].y - (b * src[0].x + d * src[0].y);
+
+  const clip = expandTriangle(dst, overlap, innerEdges);
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(clip[0].x, clip[0].y);
+  ctx.lineTo(clip[1].x, clip[1].y);
+  ctx.lineTo(clip[2].x, clip[2].y);
+  ctx.closePath();
+  ctx.clip();
+  ctx.transform(a, b, c, d, e, f);
+  ctx.drawImage(img, 0, 0);
+  ctx.restore();
+};
+
+/**
+ * Draw (a region of) an image warped onto a quad in the current coordinate
+ * space. Subdivisions trades accuracy for speed; 1 is enough for affine quads.
+ */
+export const drawImageToQuad = (
+  ctx: CanvasRenderingContext2D,
+  img: CanvasImageSource & { width: number; height: number },
+  quad: Quad,
+  subdivisions = 12,
+  source: SourceRect = { x: 0, y: 0, width: img.width, height: img.height }
+) => {
+  const m = squareToQuad(quad);
+  const n = m.g === 0 && m.h === 0 ? 1 : Math.max(1, Math.round(subdivisions));
+  const overlap = devicePixel(ctx);
+
+  for (let row = 0; row < n; row++) {
+    for (let col = 0; col < n; col++) {
+      const u0 = col / n;
+      const u1 = (col + 1) / n;
+      const v0 = row / n;
+      const v1 = (row + 1) / n;
+      const s = (u: number, v: number): Point => ({
+        x: source.x + u * source.width,
+        y: source.y + v * source.height
+      });
+      const p00 = applyHomography(m, u0, v0);
+      const p10 = applyHomography(m, u1, v0);
+      const p11 = applyHomography(m, u1, v1);
+      const p01 = applyHomography(m, u0, v1);
+      drawTriangle(ctx, img, [s(u0, v0), s(u1, v0), s(u1, v1)], [p00, p10, p11], overlap, [row > 0, col < n - 1, true]);
+      drawTriangle(ctx, img, [s(u0, v0), s(u1, v1), s(u0, v1)], [p00, p11, p01], overlap, [true, row < n - 1, col > 0]);
+    }
+  }
+};
+
+export const rotateX = (p: Point3, degrees: number): Point3 => {
+  const r = degrees * Math.PI / 180;
+  return { x: p.x, y: p.y * Math.cos(r) - p.z * Math.sin(r), z: p.y * Math.sin(r) + p.z * Math.cos(r) };
+};
+
+export const rotateY = (p: Point3, degrees: number): Point3 => {
+  const r = degrees * Math.PI / 180;
+  return { x: p.x * Math.cos(r) + p.z * Math.sin(r), y: p.y, z: -p.x * Math.sin(r) + p.z * Math.cos(r) };
+};
+
+// Pinhole projection looking down +z; larger focal lengths flatten the perspective
+export const project = (p: Point3, focal: number): Point => {
+  const k = focal / (focal + p.z);
+  return { x: p.x * k, y: p.y * k };
+};
+
+export const fillPolygon = (ctx: CanvasRenderingContext2D, points: Point[]) => {
+  ctx.beginPath();
+  points.forEach((p, i) => (i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y)));
+  ctx.closePath();
+  ctx.fill();
+};
@@ -0,0 +1,37 @@
+import { PageStats } from './pageScoring.ts';
+import { PaletteColor } from './colorPalette.ts';
+
+// Messages exchanged between pageRasterizer and rasterWorker
+
+// Full-resolution pages are rendered at this scale when a composition needs them
+export const PAGE_RENDER_SCALE = 1.5;
+export const THUMBNAIL_WIDTH = 240;
+
+export type RasterRequest =
+  // A wrong or missing password fails with a PasswordException the client can retry
+  | { id: number; type: 'open'; data: ArrayBuffer; password: string | null }
+  | {
+    id: number;
+    type: 'render';
+    docId: number;
+    pageNum: number;
+    // Either a fixed scale or a target pixel width
+    scale: number;
+    targetWidth: number | null;
+    // Thumbnails come back as PNG blobs with page statistics and colours, full pages as bitmaps
+    output: 'thumbnail' | 'bitmap';
+  }
+  | { id: number; type: 'close'; docId: number };
+
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+
+// A request before the client assigns it an id
+export type RasterRequestBody = WithoutId<RasterRequest>;
+
+export type RasterResult =
+  | { id: number; ok: true; type: 'opened'; docId: number; numPages: number; title: string | null }
+  | { id: number; ok: true; type: 'thumbnail'; blob: Blob; stats: PageStats; palette: PaletteColor[] }
+  | { id: number; ok: true; type: 'bitmap'; bitmap: ImageBitmap }
+  | { id: number; ok: true; type: 'closed' };
+
+export type RasterResponse = RasterResult | { id: number; ok: false; name: string; message: string };
@@ -0,0 +1,124 @@
+/// <reference lib="webworker" />
+/* eslint-disable no-restricted-globals */
+
+// Renders PDF pages off the main thread with OffscreenCanvas. pdf.js still parses
+// in its own nested worker; this one only does the canvas work the main thread used to.
+
+import * as pdfjsLib from 'pdfjs-dist';
+import { PDFDocumentProxy } from 'pdfjs-dist';
+import { RasterRequest, RasterResponse } from './rasterProtocol.ts';
+import { measurePage } from './pageScoring.ts';
+import { extractPalette } from './colorPalette.ts';
+
+declare const self: DedicatedWorkerGlobalScope;
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = self.location.origin + '/pdf.worker.min.js';
+
+// Missing from the TypeScript 4.9 DOM typings
+type BlobCanvas = OffscreenCanvas & { convertToBlob: (options?: { type?: string }) => Promise<Blob> };
+
+interface CanvasAndContext {
+  canvas: OffscreenCanvas | null;
+  context: OffscreenCanvasRenderingContext2D | null;
+}
+
+// pdf.js creates scratch canvases for patterns and masks; the default factory needs a DOM
+class OffscreenCanvasFactory {
+  create(width: number, height: number): CanvasAndContext {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, context: canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null };
+  }
+
+  reset(canvasAndContext: CanvasAndContext, width: number, height: number) {
+    if (!canvasAndContext.canvas) return;
+    canvasAndContext.canvas.width = width;
+    canvasAndContext.canvas.height = height;
+  }
+
+  destroy(canvasAndContext: CanvasAndContext) {
+    if (canvasAndContext.canvas) {
+      canvasAndContext.canvas.width = 0;
+      canvasAndContext.canvas.height = 0;
+    }
+    canvasAndContext.canvas = null;
+    canvasAndContext.context = null;
+  }
+}
+
+// SVG filters are only used for high-contrast and transfer-function rendering, which we don't need
+const noopFilterFactory = {
+  addFilter: () => 'none',
+  addHCMFilter: () => 'none',
+  addHighlightHCMFilter: () => 'none',
+  destroy: () => undefined
+};
+
+const documents = new Map<number, PDFDocumentProxy>();
+let nextDocId = 1;
+
+const reply = (response: RasterResponse, transfer: Transferable[] = []) => {
+  self.postMessage(response, transfer);
+};
+
+const handleRequest = async (request: RasterRequest) => {
+  switch (request.type) {
+    case 'open': {
+      const doc = await pdfjsLib.getDocument({
+        data: request.data,
+        password: request.password ?? undefined,
+        canvasFactory: new OffscreenCanvasFactory(),
+        filterFactory: noopFilterFactory,
+        // FontFace needs a document; draw glyphs as paths instead
+        disableFontFace: true,
+        isOffscreenCanvasSupported: true
+      }).promise;
+      const metadata = await doc.getMetadata().catch(() => null);
+      const title = (metadata?.info as { Title?: string } | undefined)?.Title ?? null;
+      const docId = nextDocId++;
+      documents.set(docId, doc);
+      reply({ id: request.id, ok: true, type: 'opened', docId, numPages: doc.numPages, title });
+      break;
+    }
+    case 'render': {
+      const doc = documents.get(request.docId);
+      if (!doc) throw new Error('Document is closed');
+      const page = await doc.getPage(request.pageNum);
+      const viewport = page.getViewport({
+        scale: request.targetWidth ? request.targetWidth / page.getViewport({ scale: 1 }).width : request.scale
+      });
+      const canvas = new OffscreenCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      const context = canvas.getContext('2d') as OffscreenCanvasRenderingContext2D | null;
+      if (!context) throw new Error('Could not get canvas context');
+      // The render types expect a DOM context, but pdf.js only uses the shared 2D API
+      await page.render({ canvasContext: context as unknown as CanvasRenderingContext2D, viewport }).promise;
+      if (request.output === 'thumbnail') {
+        const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+        const stats = await measurePage(page, pixels);
+        const blob = await (canvas as BlobCanvas).convertToBlob({ type: 'image/png' });
+        reply({ id: request.id, ok: true, type: 'thumbnail', blob, stats, palette: extractPalette(pixels) });
+      } else {
+        const bitmap = canvas.transferToImageBitmap();
+        reply({ id: request.id, ok: true, type: 'bitmap', bitmap }, [bitmap]);
+      }
+      page.cleanup();
+      break;
+    }
+    case 'close': {
+      const doc = documents.get(request.docId);
+      documents.delete(request.docId);
+      await doc?.destroy();
+      reply({ id: request.id, ok: true, type: 'closed' });
+      break;
+    }
+  }
+};
+
+self.onmessage = async (event: MessageEvent<RasterRequest>) => {
+  try {
+    await handleRequest(event.data);
+  } catch (error: any) {
+    reply({ id: event.data.id, ok: false, name: error?.name ?? 'Error', message: error?.message ?? String(error) });
+  }
+};
+
+export {};
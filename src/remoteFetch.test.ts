@@ -0,0 +1,32 @@
+import { DEFAULT_FETCH_SETTINGS, parseUrlList, proxiedUrl, sniffFileType } from './remoteFetch.ts';
+
+const bytes = (text: string, prefix: number[] = []) =>
+  new Uint8Array([...prefix, ...Array.from(text, char => char.charCodeAt(0))]);
+
+test('file types come from the content, not the name or headers', () => {
+  expect(sniffFileType(bytes('%PDF-1.7\n'))).toBe('application/pdf');
+  expect(sniffFileType(bytes('junk before the header %PDF-1.4'))).toBe('application/pdf');
+  expect(sniffFileType(bytes('', [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0])))
+    .toBe('image/png');
+  expect(sniffFileType(bytes('', [0xff, 0xd8, 0xff, 0xe0]))).toBe('image/jpeg');
+  expect(sniffFileType(bytes('RIFF\u0000\u0000\u0000\u0000WEBPVP8 '))).toBe('image/webp');
+  expect(sniffFileType(bytes('<?xml version="1.0"?>\n<svg xmlns="http://www.w3.org/2000/svg">'))).toBe('image/svg+xml');
+  expect(sniffFileType(bytes('<!DOCTYPE html><html><body>Sign in</body></html>'))).toBeNull();
+});
+
+test('proxies are only used when configured', () => {
+  const url = 'https://example.com/a b.pdf?x=1';
+  expect(proxiedUrl(url, DEFAULT_FETCH_SETTINGS)).toBeNull();
+  expect(proxiedUrl(url, { ...DEFAULT_FETCH_SETTINGS, proxyMode: 'self-hosted', proxyEndpoint: '/proxy' }))
+    .toBe('/proxy?url=https%3A%2F%2Fexample.com%2Fa%20b.pdf%3Fx%3D1');
+  expect(proxiedUrl(url, { ...DEFAULT_FETCH_SETTINGS, proxyMode: 'self-hosted', proxyEndpoint: '/proxy?key=1' }))
+    .toBe('/proxy?key=1&url=https%3A%2F%2Fexample.com%2Fa%20b.pdf%3Fx%3D1');
+  expect(proxiedUrl(url, { ...DEFAULT_FETCH_SETTINGS, proxyMode: 'template', proxyTemplate: 'https://p.example/fetch/{url}' }))
+    .toBe('https://p.example/fetch/https%3A%2F%2Fexample.com%2Fa%20b.pdf%3Fx%3D1');
+  expect(proxiedUrl(url, { ...DEFAULT_FETCH_SETTINGS, proxyMode: 'template', proxyTemplate: ' ' })).toBeNull();
+});
+
+test('pasted URL lists are split, cleaned and de-duplicated', () => {
+  expect(parseUrlList(' https://a.example/1.pdf\n<https://b.example/2.pdf>, "https://a.example/1.pdf"\n\nfile.pdf ftp://c/3.pdf'))
+    .toEqual({ urls: ['https://a.example/1.pdf', 'https://b.example/2.pdf'], invalid: ['file.pdf', 'ftp://c/3.pdf'] });
+});
@@ -0,0 +1,231 @@
+// Downloads of PDFs and images by URL. Everything is fetched directly unless the user has
+// configured a proxy and agreed to send URLs through it, since the URLs we are given are
+// often unpublished documents that must not leak to a third party.
+
+export type ProxyMode = 'none' | 'self-hosted' | 'template';
+
+export interface FetchSettings {
+  proxyMode: ProxyMode;
+  // Our own proxy, which takes the target as a `url` query parameter
+  proxyEndpoint: string;
+  // Any other proxy; `{url}` marks where the encoded target goes
+  proxyTemplate: string;
+  // Nothing is sent to a proxy until the user has explicitly allowed it
+  proxyConsent: boolean;
+}
+
+export const DEFAULT_FETCH_SETTINGS: FetchSettings = {
+  proxyMode: 'none',
+  proxyEndpoint: '/proxy',
+  proxyTemplate: '',
+  proxyConsent: false
+};
+
+export const PROXY_MODES: { mode: ProxyMode; label: string }[] = [
+  { mode: 'none', label: 'No proxy' },
+  { mode: 'self-hosted', label: 'Self-hosted endpoint' },
+  { mode: 'template', label: 'Custom URL template' }
+];
+
+export const MAX_PDF_BYTES = 200 * 1024 * 1024;
+export const MAX_IMAGE_BYTES = 25 * 1024 * 1024;
+
+const STORAGE_KEY = 'pdf-marketing-app.fetch-settings';
+
+// Failures worth showing to the user as they are
+export class RemoteFetchError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RemoteFetchError';
+  }
+}
+
+const TYPE_LABELS: Record<string, string> = {
+  'application/pdf': 'PDF',
+  'image/png': 'PNG',
+  'image/jpeg': 'JPEG',
+  'image/gif': 'GIF',
+  'image/webp': 'WebP',
+  'image/svg+xml': 'SVG'
+};
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/**
+ * Work out what a file really is from its first bytes, ignoring whatever the
+ * server claims. Returns a MIME type, or null for anything we don't handle.
+ */
+export const sniffFileType = (bytes: Uint8Array): string | null => {
+  const head = String.fromCharCode(...Array.from(bytes.subarray(0, 1024)));
+  if (PNG_SIGNATURE.every((byte, i) => bytes[i] === byte)) return 'image/png';
+  if (bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return 'image/jpeg';
+  if (head.startsWith('GIF8')) return 'image/gif';
+  if (head.startsWith('RIFF') && head.slice(8, 12) === 'WEBP') return 'image/webp';
+  // PDF readers accept the header anywhere in the first kilobyte
+  if (head.includes('%PDF-')) return 'application/pdf';
+  // SVG is text: an svg root element after an optional BOM, XML declaration, comments or doctype
+  if (/^(\xEF\xBB\xBF)?\s*(<\?xml|<!--|<!DOCTYPE svg|<svg[\s>])/i.test(head) && /<svg[\s>]/i.test(head)) {
+    return 'image/svg+xml';
+  }
+  return null;
+};
+
+// Where to fetch `url` through the configured proxy, or null when there is none
+export const proxiedUrl = (url: string, settings: FetchSettings): string | null => {
+  const target = encodeURIComponent(url);
+  if (settings.proxyMode === 'self-hosted') {
+    const endpoint = settings.proxyEndpoint.trim();
+    if (!endpoint) return null;
+    return `${endpoint}${endpoint.includes('?') ? '&' : '?'}url=${target}`;
+  }
+  if (settings.proxyMode === 'template') {
+    const template = settings.proxyTemplate.trim();
+    if (!template) return null;
+    return template.includes('{url}') ? template.split('{url}').join(target) : `${template}${target}`;
+  }
+  return null;
+};
+
+/**
+ * Split a pasted list of URLs on whitespace, dropping duplicates and any
+ * surrounding quotes or angle brackets. Entries that aren't http(s) URLs are
+ * returned separately so they can be reported.
+ */
+export const parseUrlList = (text: string): { urls: string[]; invalid: string[] } => {
+  const urls: string[] = [];
+  const invalid: string[] = [];
+  text.split(/\s+/).forEach(raw => {
+    const entry = raw.replace(/^[<"']+|[>"',;]+$/g, '');
+    if (!entry) return;
+    try {
+      const url = new URL(entry);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error('Unsupported protocol');
+      if (!urls.includes(url.href)) urls.push(url.href);
+    } catch {
+      invalid.push(entry);
+    }
+  });
+  return { urls, invalid };
+};
+
+const formatLimit = (bytes: number) => `${Math.round(bytes / 1024 / 1024)} MB`;
+
+const hostOf = (url: string) => {
+  try {
+    return new URL(url).host;
+  } catch {
+    return url;
+  }
+};
+
+// Read the body, giving up as soon as it passes the size limit
+const readLimited = async (response: Response, maxBytes: number): Promise<Blob> => {
+  const tooLarge = () => new RemoteFetchError(`The file is larger than the ${formatLimit(maxBytes)} limit`);
+  if (Number(response.headers.get('content-length')) > maxBytes) throw tooLarge();
+  if (!response.body) {
+    const blob = await response.blob();
+    if (blob.size > maxBytes) throw tooLarge();
+    return blob;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      reader.cancel().catch(() => undefined);
+      throw tooLarge();
+    }
+    chunks.push(value);
+  }
+  return new Blob(chunks);
+};
+
+const describeStatus = (response: Response) => {
+  if (response.status === 401 || response.status === 403) {
+    return `Access was refused (${response.status}). The URL may need a login, or the server blocks downloads`;
+  }
+  if (response.status === 404) return 'Nothing was found at that URL (404)';
+  return `The server answered ${response.status} ${response.statusText}`.trim();
+};
+
+export interface RemoteFetchOptions {
+  // MIME types the caller can use; the downloaded bytes must be one of them
+  accept: string[];
+  maxBytes: number;
+  settings: FetchSettings;
+  signal?: AbortSignal;
+}
+
+export interface RemoteFile {
+  // Typed with the MIME type detected from its content
+  blob: Blob;
+  // Only readable cross-origin if the server exposes it
+  contentDisposition: string | null;
+}
+
+export const fetchRemoteFile = async (
+  url: string,
+  { accept, maxBytes, settings, signal }: RemoteFetchOptions
+): Promise<RemoteFile> => {
+  const headers = { Accept: accept.join(', ') };
+  let response: Response;
+  try {
+    response = await fetch(url, { mode: 'cors', credentials: 'omit', headers, signal });
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    const proxy = proxiedUrl(url, settings);
+    if (!proxy) {
+      throw new RemoteFetchError(
+        `Could not download from ${hostOf(url)}. The site may not allow downloads from other websites; ` +
+        'a proxy can be set up in the download settings.'
+      );
+    }
+    if (!settings.proxyConsent) {
+      throw new RemoteFetchError(
+        `Could not download from ${hostOf(url)} directly. Allow the proxy in the download settings to try through it.`
+      );
+    }
+    try {
+      response = await fetch(proxy, { credentials: 'omit', headers, signal });
+    } catch (proxyError) {
+      if (signal?.aborted) throw proxyError;
+      throw new RemoteFetchError(`Could not download from ${hostOf(url)} directly or through the proxy`);
+    }
+  }
+
+  if (!response.ok) throw new RemoteFetchError(describeStatus(response));
+  const body = await readLimited(response, maxBytes);
+  if (body.size === 0) throw new RemoteFetchError('The downloaded file is empty');
+
+  const type = sniffFileType(new Uint8Array(await body.slice(0, 1024).arrayBuffer()));
+  if (!type || !accept.includes(type)) {
+    const wanted = accept.map(mime => TYPE_LABELS[mime] ?? mime).join(' or ');
+    const actual = type ? `${TYPE_LABELS[type] ?? type} data` : 'something else, often a web page or login screen';
+    throw new RemoteFetchError(`Expected ${wanted} but the URL returned ${actual}`);
+  }
+  return { blob: body.slice(0, body.size, type), contentDisposition: response.headers.get('content-disposition') };
+};
+
+// Settings saved in this browser; anything unreadable falls back to the defaults
+export const loadFetchSettings = (): FetchSettings => {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '{}');
+    const settings = { ...DEFAULT_FETCH_SETTINGS };
+    if (PROXY_MODES.some(option => option.mode === stored.proxyMode)) settings.proxyMode = stored.proxyMode;
+    if (typeof stored.proxyEndpoint === 'string') settings.proxyEndpoint = stored.proxyEndpoint;
+    if (typeof stored.proxyTemplate === 'string') settings.proxyTemplate = stored.proxyTemplate;
+    settings.proxyConsent = stored.proxyConsent === true;
+    return settings;
+  } catch (error) {
+    console.warn('Ignoring saved URL settings:', error);
+    return DEFAULT_FETCH_SETTINGS;
+  }
+};
+
+export const saveFetchSettings = (settings: FetchSettings) => {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
@@ -0,0 +1,87 @@
+import { DEFAULT_PAGE_STYLE } from './pageStyle.ts';
+import { DEFAULT_MOCKUP } from './mockups.ts';
+import { DEFAULT_BACKGROUND_STYLE } from './backgroundStyle.ts';
+import { DEFAULT_BRAND_LAYERS } from './brandLayers.ts';
+import { LAYOUT_TEMPLATES } from './layoutTemplates.ts';
+import { createDefaultTextLayers } from './textLayers.ts';
+import { Scene, SceneCanvas, SceneImage, placePages, renderScene, scenePages } from './sceneRenderer.ts';
+
+const settings = {
+  templateId: 'fan-3',
+  pageSize: 400,
+  tiltAngle: 15,
+  overlap: 50,
+  pageStyle: DEFAULT_PAGE_STYLE,
+  mockup: DEFAULT_MOCKUP,
+  slotAdjustments: [],
+  outputPresetIds: ['widescreen'],
+  customWidth: 1600,
+  customHeight: 900
+};
+const size = { width: 1600, height: 900 };
+
+const fakeImage = (name: string) => ({ name, width: 200, height: 300 }) as unknown as SceneImage;
+
+const describeValue = (value: unknown): string => {
+  if (typeof value === 'number') return String(Math.round(value * 100) / 100);
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (value && typeof value === 'object' && 'name' in value) return `<${(value as { name: string }).name}>`;
+  return String(value);
+};
+
+// Canvas whose context writes down every call and property change, so a scene's
+// drawing can be compared as text. Text measures 10px per character.
+const recordingCanvas = (log: string[]): SceneCanvas => {
+  const record = (name: string) => (...args: unknown[]) => {
+    log.push(`${name}(${args.map(describeValue).join(', ')})`);
+    return { name, addColorStop: record(`${name}.addColorStop`) };
+  };
+  const context = new Proxy({}, {
+    get: (_, prop: string) => (prop === 'measureText'
+      ? (text: string) => ({ width: text.length * 10 })
+      : record(prop)),
+    set: (_, prop: string, value) => {
+      log.push(`${prop} = ${describeValue(value)}`);
+      return true;
+    }
+  });
+  return { width: 0, height: 0, getContext: () => context as CanvasRenderingContext2D };
+};
+
+test('every template lays out the same way at a given size', () => {
+  const pageImages = [fakeImage('page 1'), fakeImage('page 2'), null, fakeImage('page 4')];
+  const layouts = Object.fromEntries(LAYOUT_TEMPLATES.map(template => [
+    template.id,
+    placePages({ ...settings, templateId: template.id }, pageImages, size)
+      .map(({ slot, x, y, width, height, rotation }) => (
+        `slot ${slot} at ${Math.round(x)},${Math.round(y)} ${Math.round(width)}x${Math.round(height)} ${Math.round(rotation)}deg`
+      ))
+  ]));
+  expect(layouts).toMatchSnapshot();
+});
+
+test('a scene draws background, pages, text and branding in order', () => {
+  const pageImages = [fakeImage('page 2'), fakeImage('page 1'), null];
+  const placements = placePages(settings, pageImages, size);
+  const scene: Scene = {
+    size,
+    background: {
+      style: { ...DEFAULT_BACKGROUND_STYLE, kind: 'palette', vignette: 0.3 },
+      image: null,
+      palette: [{ color: '#1565c0', weight: 0.3 }, { color: '#ffb300', weight: 0.2 }]
+    },
+    pages: scenePages(placements, pageImages),
+    mockup: DEFAULT_MOCKUP,
+    pageStyle: DEFAULT_PAGE_STYLE,
+    textLayers: createDefaultTextLayers('Annual Report').slice(0, 1),
+    logo: { layer: DEFAULT_BRAND_LAYERS.logo, image: fakeImage('logo') },
+    watermark: DEFAULT_BRAND_LAYERS.watermark
+  };
+
+  const log: string[] = [];
+  const { width, height } = renderScene(scene, () => recordingCanvas(log));
+  expect({ width, height }).toEqual(size);
+  // The empty third slot is skipped
+  expect(scene.pages.map(page => page.placement.slot)).toEqual([0, 1]);
+  expect(log).toMatchSnapshot();
+});
@@ -0,0 +1,148 @@
+import { LayoutSettings } from './types.ts';
+import {
+  CanvasSize, PagePlacement, REFERENCE_CANVAS, applySlotAdjustments, fitPlacements, getLayoutTemplate, referenceScale
+} from './layoutTemplates.ts';
+import { BackgroundStyle, drawBackground } from './backgroundStyle.ts';
+import { PaletteColor } from './colorPalette.ts';
+import { MockupSettings, drawPageMockup } from './mockups.ts';
+import { PageStyle } from './pageStyle.ts';
+import { TextLayer, drawTextLayer } from './textLayers.ts';
+import { BrandLayers, LogoLayer, WatermarkLayer, drawLogo, drawTiledWatermark } from './brandLayers.ts';
+
+// Composes marketing images from a plain description of what goes where. Nothing
+// here touches React or the DOM, so the same code renders in the browser, in
+// Node (see nodeCanvas) and in tests.
+
+// Anything drawImage accepts that knows its own size
+export type SceneImage = CanvasImageSource & { width: number; height: number };
+
+export interface ScenePage {
+  image: SceneImage;
+  // Where the page's center sits on the output canvas, and how it is turned and sized
+  placement: PagePlacement;
+}
+
+export interface Scene {
+  size: CanvasSize;
+  background: {
+    style: BackgroundStyle;
+    // The uploaded image or the cover page, depending on the style's kind
+    image: SceneImage | null;
+    palette: PaletteColor[];
+  };
+  // Drawn in order, back to front
+  pages: ScenePage[];
+  mockup: MockupSettings;
+  pageStyle: PageStyle;
+  textLayers: TextLayer[];
+  logo: { layer: LogoLayer; image: SceneImage } | null;
+  watermark: WatermarkLayer;
+}
+
+// The parts of a canvas the renderer needs. DOM canvases fit as they are;
+// other implementations may need a cast for their context type.
+export interface SceneCanvas {
+  width: number;
+  height: number;
+  getContext: (contextId: '2d') => CanvasRenderingContext2D | null;
+}
+
+export type CanvasFactory<C extends SceneCanvas = SceneCanvas> = (width: number, height: number) => C;
+
+/**
+ * Lay out a PDF's selected pages for an output size, back to front. Templates
+ * are authored on the reference canvas using the proportions of the first
+ * available page, nudged by any preview adjustments, then scaled to the output.
+ * Every slot gets a placement, including ones with no page to draw.
+ */
+export const placePages = (
+  settings: LayoutSettings,
+  pageImages: (SceneImage | null)[],
+  size: CanvasSize
+): PagePlacement[] => {
+  const template = getLayoutTemplate(settings.templateId);
+  const firstImage = pageImages.find(img => img !== null);
+  const pageAspect = firstImage ? firstImage.height / firstImage.width : 1.5;
+  return fitPlacements(
+    applySlotAdjustments(template.place(settings, REFERENCE_CANVAS, pageAspect), settings.slotAdjustments),
+    REFERENCE_CANVAS,
+    size
+  ).sort((a, b) => a.zIndex - b.zIndex);
+};
+
+// Pair placements with their page images, dropping empty slots
+export const scenePages = (placements: PagePlacement[], pageImages: (SceneImage | null)[]): ScenePage[] =>
+  placements.flatMap(placement => {
+    const image = pageImages[placement.slot];
+    return image ? [{ image, placement }] : [];
+  });
+
+// Everything a PDF's composition is made from, with its images already loaded
+export interface SceneSource {
+  settings: LayoutSettings;
+  textLayers: TextLayer[];
+  // One per template slot, null where there is no page to draw
+  pageImages: (SceneImage | null)[];
+  backgroundStyle: BackgroundStyle;
+  backgroundImage: SceneImage | null;
+  palette: PaletteColor[];
+  brandLayers: BrandLayers;
+  logoImage: SceneImage | null;
+}
+
+// Lay out a PDF's composition at an output size; the placements cover empty slots too
+export const composeScene = (source: SceneSource, size: CanvasSize): { scene: Scene; placements: PagePlacement[] } => {
+  const placements = placePages(source.settings, source.pageImages, size);
+  return {
+    placements,
+    scene: {
+      size,
+      background: { style: source.backgroundStyle, image: source.backgroundImage, palette: source.palette },
+      pages: scenePages(placements, source.pageImages),
+      mockup: source.settings.mockup,
+      pageStyle: source.settings.pageStyle,
+      textLayers: source.textLayers,
+      logo: source.logoImage ? { layer: source.brandLayers.logo, image: source.logoImage } : null,
+      watermark: source.brandLayers.watermark
+    }
+  };
+};
+
+/**
+ * Resize the canvas to the scene and draw it: background, pages, text, then
+ * the logo and watermark over everything. Fonts must already be loaded.
+ */
+export const drawScene = (canvas: SceneCanvas, scene: Scene) => {
+  const { size } = scene;
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Could not get canvas context');
+  ctx.clearRect(0, 0, size.width, size.height);
+
+  // Lengths are authored on the reference canvas and scaled to the output
+  const scale = referenceScale(size);
+  drawBackground(ctx, scene.background.style, scene.background.image, size, scale, scene.background.palette);
+
+  for (const { image, placement } of scene.pages) {
+    ctx.save();
+    ctx.translate(placement.x, placement.y);
+    ctx.rotate(placement.rotation * Math.PI / 180);
+    drawPageMockup(ctx, image, placement.width, placement.height, scene.mockup, scene.pageStyle, scale);
+    ctx.restore();
+  }
+
+  for (const layer of scene.textLayers) {
+    drawTextLayer(ctx, layer, size, scale);
+  }
+
+  if (scene.logo) drawLogo(ctx, scene.logo.image, scene.logo.layer, size, scale);
+  drawTiledWatermark(ctx, scene.watermark, size, scale);
+};
+
+// Draw the scene on a fresh canvas from the factory and hand it back for encoding
+export const renderScene = <C extends SceneCanvas>(scene: Scene, createCanvas: CanvasFactory<C>): C => {
+  const canvas = createCanvas(scene.size.width, scene.size.height);
+  drawScene(canvas, scene);
+  return canvas;
+};
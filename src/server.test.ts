@@ -0,0 +1,69 @@
+/**
+ * @jest-environment node
+ */
+import * as http from 'http';
+import * as path from 'path';
+import { ChildProcess, spawn } from 'child_process';
+
+// A one-page PDF with a filled square; pdf.js rebuilds the missing cross-reference table
+const PDF = [
+  '%PDF-1.4',
+  '1 0 obj << /Type /Catalog /Pages 2 0 R >> endobj',
+  '2 0 obj << /Type /Pages /Kids [3 0 R] /Count 1 >> endobj',
+  '3 0 obj << /Type /Page /Parent 2 0 R /MediaBox [0 0 200 280] /Contents 4 0 R >> endobj',
+  '4 0 obj << /Length 35 >> stream\n0.2 0.4 0.8 rg 20 20 160 240 re f\nendstream endobj',
+  'trailer << /Root 1 0 R >>',
+  '%%EOF'
+].join('\n');
+
+const upload = (port: number, fileName: string) => new Promise<http.IncomingMessage>((resolve, reject) => {
+  const boundary = 'test-boundary';
+  const body = Buffer.concat([
+    Buffer.from(`--${boundary}\r\nContent-Disposition: form-data; name="file"; filename="${fileName}"\r\n`),
+    Buffer.from('Content-Type: application/pdf\r\n\r\n'),
+    Buffer.from(PDF),
+    Buffer.from(`\r\n--${boundary}\r\nContent-Disposition: form-data; name="format"\r\n\r\npng\r\n--${boundary}--\r\n`)
+  ]);
+  const req = http.request({
+    port,
+    method: 'POST',
+    path: '/render',
+    headers: { 'Content-Type': `multipart/form-data; boundary=${boundary}`, 'Content-Length': body.length }
+  }, res => {
+    res.resume();
+    res.on('end', () => resolve(res));
+  });
+  req.on('error', reject);
+  req.end(body);
+});
+
+// Run the server as `npm run server` does, on a free port it reports when listening
+let server: ChildProcess;
+let port: number;
+
+beforeAll(() => new Promise<void>((resolve, reject) => {
+  const tsx = path.join(__dirname, '..', 'node_modules', '.bin', 'tsx');
+  server = spawn(tsx, [path.join(__dirname, 'server.ts'), '--port', '0']);
+  let output = '';
+  server.stderr!.on('data', chunk => {
+    output += chunk;
+    const listening = /http:\/\/[\d.]+:(\d+)/.exec(output);
+    if (listening) {
+      port = Number(listening[1]);
+      resolve();
+    }
+  });
+  server.on('exit', code => reject(new Error(`The server exited with ${code}: ${output}`)));
+}), 60000);
+
+afterAll(() => {
+  server?.kill();
+});
+
+test('images rendered from PDFs with non-ASCII names get a usable download name', async () => {
+  const res = await upload(port, 'Bericht-Ü.pdf');
+  expect(res.statusCode).toBe(200);
+  expect(res.headers['content-disposition']).toBe(
+    'inline; filename="Bericht-U-marketing-1280x720.png"; filename*=UTF-8\'\'Bericht-%C3%9C-marketing-1280x720.png'
+  );
+}, 60000);
@@ -0,0 +1,383 @@
+import * as http from 'http';
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import { DEFAULT_STYLE, PUBLIC_DIR, RenderError, createAssetLoader, renderPdf } from './nodeRenderer.ts';
+import { PresetStyle, StylePreset, parsePresetFile, parsePresetStyle } from './stylePresets.ts';
+import { CUSTOM_PRESET_ID, OUTPUT_PRESETS, parseOutputSize } from './outputPresets.ts';
+import { EXPORT_FORMATS, ExportFormat, getFormatInfo } from './imageEncoding.ts';
+import { dataUrlPayload, marketingImageFileName } from './batchExport.ts';
+import { downloadFileName } from './fileIdentity.ts';
+import { DEFAULT_FETCH_SETTINGS, MAX_PDF_BYTES, RemoteFetchError, fetchRemoteFile } from './remoteFetch.ts';
+
+// A small HTTP API so other systems, such as a CMS, can render marketing images
+// with the app's presets and layout code. Nothing leaves this machine unless the
+// server is started with --allow-remote.
+
+const USAGE = `Usage: npm run server -- [options]
+
+Options:
+      --port <port>         Port to listen on (default: 4000)
+      --host <host>         Address to listen on (default: 127.0.0.1, this machine only)
+  -p, --presets <file>      Preset file exported from the app, offered by GET /presets
+      --max-upload <MB>     Largest PDF accepted (default: ${MAX_PDF_BYTES / 1024 / 1024})
+      --allow-remote        Fetch PDFs and preset images from http(s) URLs
+  -h, --help                Show this help
+
+Endpoints:
+  GET  /health              Whether the server is up
+  GET  /presets             Presets, output sizes and formats to choose from
+  POST /render              Render one image from a PDF, as multipart/form-data (a "file"
+                            upload) or JSON (a "url"). Optional fields: preset, settings
+                            (preset-shaped JSON overriding the preset), size, format,
+                            pages (e.g. 1,3,2) and password`;
+
+const DEFAULT_PORT = 4000;
+const DEFAULT_PRESET_ID = 'default';
+// Form fields and JSON settings on top of the PDF itself, mostly logos as data URLs
+const FIELDS_ALLOWANCE = 30 * 1024 * 1024;
+// Renders are memory hungry, so they run one at a time with a short queue behind
+const MAX_QUEUED_RENDERS = 4;
+const RENDER_TIMEOUT_MS = 2 * 60 * 1000;
+
+class UsageError extends Error {}
+
+// Failures with a status to answer with; the message is shown to the caller as it is
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+interface ServerOptions {
+  presets: StylePreset[];
+  maxUploadBytes: number;
+  allowRemote: boolean;
+}
+
+interface RenderFields {
+  file: { data: Uint8Array; name: string } | null;
+  url?: string;
+  preset?: string;
+  settings?: unknown;
+  size?: string;
+  format?: string;
+  pages?: string;
+  password?: string;
+}
+
+const sendJson = (res: http.ServerResponse, status: number, body: unknown) => {
+  const json = JSON.stringify(body);
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(json) });
+  res.end(json);
+};
+
+// Collect the body, answering 413 as soon as it passes the limit rather than after reading it all
+const readBody = (req: http.IncomingMessage, maxBytes: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const tooLarge = new HttpError(413, `The request is larger than the ${Math.round(maxBytes / 1024 / 1024)} MB limit`);
+  if (Number(req.headers['content-length']) > maxBytes) {
+    reject(tooLarge);
+    return;
+  }
+  const chunks: Buffer[] = [];
+  let total = 0;
+  req.on('data', (chunk: Buffer) => {
+    total += chunk.length;
+    if (total > maxBytes) reject(tooLarge);
+    else chunks.push(chunk);
+  });
+  req.on('end', () => resolve(Buffer.concat(chunks)));
+  req.on('error', reject);
+});
+
+const optionalString = (value: unknown, name: string): string | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string') throw new HttpError(400, `"${name}" should be a string`);
+  return value;
+};
+
+const parseFields = async (req: http.IncomingMessage, maxUploadBytes: number): Promise<RenderFields> => {
+  const type = req.headers['content-type'] ?? '';
+  const multipart = /^multipart\/form-data/i.test(type);
+  if (!multipart && !/^application\/json/i.test(type)) {
+    throw new HttpError(415, 'Send multipart/form-data with a "file", or JSON with a "url"');
+  }
+  const body = await readBody(req, maxUploadBytes + FIELDS_ALLOWANCE);
+
+  if (multipart) {
+    let form: FormData;
+    try {
+      form = await new Request('http://localhost/render', { method: 'POST', headers: { 'content-type': type }, body })
+        .formData();
+    } catch {
+      throw new HttpError(400, 'The form data could not be read');
+    }
+    const file = form.get('file');
+    if (typeof file === 'string') throw new HttpError(400, '"file" should be a file upload');
+    if (file && file.size > maxUploadBytes) {
+      throw new HttpError(413, `The PDF is larger than the ${Math.round(maxUploadBytes / 1024 / 1024)} MB limit`);
+    }
+    const text = (name: string) => optionalString(form.get(name) ?? undefined, name);
+    const settings = text('settings');
+    let parsedSettings: unknown;
+    try {
+      parsedSettings = settings === undefined ? undefined : JSON.parse(settings);
+    } catch {
+      throw new HttpError(400, '"settings" is not valid JSON');
+    }
+    return {
+      file: file ? { data: new Uint8Array(await file.arrayBuffer()), name: file.name || 'document.pdf' } : null,
+      url: text('url'),
+      preset: text('preset'),
+      settings: parsedSettings,
+      size: text('size'),
+      format: text('format'),
+      pages: text('pages'),
+      password: text('password')
+    };
+  }
+
+  let json: unknown;
+  try {
+    json = JSON.parse(body.toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'The request body is not valid JSON');
+  }
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) {
+    throw new HttpError(400, 'The request body should be a JSON object');
+  }
+  const fields = json as Record<string, unknown>;
+  return {
+    file: null,
+    url: optionalString(fields.url, 'url'),
+    preset: optionalString(fields.preset, 'preset'),
+    settings: fields.settings,
+    size: optionalString(fields.size, 'size'),
+    format: optionalString(fields.format, 'format'),
+    pages: Array.isArray(fields.pages) ? fields.pages.join(',') : optionalString(fields.pages, 'pages'),
+    password: optionalString(fields.password, 'password')
+  };
+};
+
+// The preset named by id or name, with any settings from the request layered on top
+const resolveStyle = (presets: StylePreset[], fields: RenderFields): PresetStyle => {
+  const preset = fields.preset
+    ? presets.find(candidate => candidate.id === fields.preset || candidate.name === fields.preset)
+    : presets[0];
+  if (!preset) throw new HttpError(400, `Unknown preset "${fields.preset}"; GET /presets lists them`);
+  if (fields.settings === undefined) return preset;
+  try {
+    return parsePresetStyle(fields.settings, preset);
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+};
+
+// Narrow a style to the single size and format this request asks for
+const singleOutput = (style: PresetStyle, fields: RenderFields): { style: PresetStyle; format: ExportFormat } => {
+  // Without a size the preset's first one is used, which may be its own custom size
+  let size: ReturnType<typeof parseOutputSize> = { presetId: style.settings.outputPresetIds[0] };
+  try {
+    if (fields.size) size = parseOutputSize(fields.size);
+  } catch (error) {
+    throw new HttpError(400, (error as Error).message);
+  }
+  const format = fields.format ?? style.exportSettings.format;
+  if (!EXPORT_FORMATS.some(info => info.format === format)) {
+    throw new HttpError(400, `Unknown format "${format}"; use ${EXPORT_FORMATS.map(info => info.format).join(', ')}`);
+  }
+  const custom = size.presetId === CUSTOM_PRESET_ID;
+  return {
+    format: format as ExportFormat,
+    style: {
+      ...style,
+      settings: {
+        ...style.settings,
+        outputPresetIds: [size.presetId],
+        customWidth: custom ? size.width ?? style.settings.customWidth : style.settings.customWidth,
+        customHeight: custom ? size.height ?? style.settings.customHeight : style.settings.customHeight
+      }
+    }
+  };
+};
+
+const parsePages = (value: string | undefined): number[] | undefined => value?.split(',').map(page => {
+  const pageNum = Number(page.trim());
+  if (!Number.isInteger(pageNum) || pageNum < 1) throw new HttpError(400, `"pages" has an invalid page "${page}"`);
+  return pageNum;
+});
+
+const loadPdf = async (fields: RenderFields, options: ServerOptions, signal: AbortSignal) => {
+  if (fields.file && fields.url) throw new HttpError(400, 'Send either a "file" or a "url", not both');
+  if (fields.file) return fields.file;
+  if (!fields.url) throw new HttpError(400, 'No PDF: send a "file" upload or a "url"');
+  if (!/^https?:\/\//i.test(fields.url)) throw new HttpError(400, '"url" should be an http(s) URL');
+  if (!options.allowRemote) {
+    throw new HttpError(403, 'This server does not fetch URLs; upload the PDF or start it with --allow-remote');
+  }
+  const { blob, contentDisposition } = await fetchRemoteFile(fields.url, {
+    accept: ['application/pdf'],
+    maxBytes: options.maxUploadBytes,
+    settings: DEFAULT_FETCH_SETTINGS,
+    signal
+  });
+  return { data: new Uint8Array(await blob.arrayBuffer()), name: downloadFileName(contentDisposition, fields.url) };
+};
+
+let queuedRenders = 0;
+let renderQueue: Promise<unknown> = Promise.resolve();
+
+const enqueueRender = <T>(task: () => Promise<T>): Promise<T> => {
+  if (queuedRenders >= MAX_QUEUED_RENDERS) throw new HttpError(503, 'The server is busy; try again shortly');
+  queuedRenders++;
+  const result = renderQueue.then(task);
+  renderQueue = result.catch(() => undefined).finally(() => queuedRenders--);
+  return result;
+};
+
+// Header values can't carry arbitrary Unicode, so send an ASCII fallback name alongside
+// the real one encoded as RFC 5987 describes
+const contentDisposition = (fileName: string) => {
+  const ascii = fileName.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]|["\\]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${ascii}"; filename*=UTF-8''${encoded}`;
+};
+
+const handleRender = async (req: http.IncomingMessage, res: http.ServerResponse, options: ServerOptions) => {
+  const fields = await parseFields(req, options.maxUploadBytes);
+  const { style, format } = singleOutput(resolveStyle(options.presets, fields), fields);
+  const pages = parsePages(fields.pages);
+
+  // Give up when the caller hangs up or the render runs too long
+  const controller = new AbortController();
+  let timedOut = false;
+  const timeout = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, RENDER_TIMEOUT_MS);
+  res.on('close', () => controller.abort());
+  try {
+    const pdf = await loadPdf(fields, options, controller.signal);
+    const rendered = await enqueueRender(() => renderPdf({
+      data: pdf.data,
+      fileName: pdf.name,
+      style,
+      pages,
+      formats: [format],
+      password: fields.password ?? null,
+      loadAsset: createAssetLoader(PUBLIC_DIR, options.allowRemote),
+      signal: controller.signal
+    }));
+    const [image] = rendered.images;
+    const bytes = Buffer.from(dataUrlPayload(image.imageUrl), 'base64');
+    res.writeHead(200, {
+      'Content-Type': getFormatInfo(image.format).mimeType,
+      'Content-Length': bytes.length,
+      'Content-Disposition': contentDisposition(marketingImageFileName(pdf.name, image)),
+      'X-Page-Count': rendered.pageCount,
+      'X-Selected-Pages': rendered.selectedPages.map(pageNum => pageNum ?? '-').join(','),
+      'X-Over-Budget': String(image.overBudget),
+      ...(rendered.pageErrors.length > 0 && {
+        'X-Skipped-Pages': rendered.pageErrors.map(({ pageNum }) => pageNum).join(',')
+      })
+    });
+    res.end(bytes);
+  } catch (error) {
+    if (timedOut) throw new HttpError(504, `Rendering took longer than ${RENDER_TIMEOUT_MS / 1000} seconds`);
+    throw error;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+const listPresets = (presets: StylePreset[]) => ({
+  presets: presets.map(({ id, name, settings, exportSettings }) => ({
+    id,
+    name,
+    sizes: settings.outputPresetIds,
+    format: exportSettings.format
+  })),
+  sizes: OUTPUT_PRESETS.map(({ id, name, width, height }) => ({ id, name, width, height })),
+  formats: EXPORT_FORMATS.map(info => info.format)
+});
+
+const createServer = (options: ServerOptions) => http.createServer((req, res) => {
+  const { pathname } = new URL(req.url ?? '/', 'http://localhost');
+  const route = `${req.method} ${pathname}`;
+  const handle = async () => {
+    if (route === 'GET /health') return sendJson(res, 200, { status: 'ok' });
+    if (route === 'GET /presets') return sendJson(res, 200, listPresets(options.presets));
+    if (route === 'POST /render') return handleRender(req, res, options);
+    if (['/health', '/presets', '/render'].includes(pathname)) throw new HttpError(405, `${req.method} is not allowed here`);
+    throw new HttpError(404, `Nothing at ${pathname}`);
+  };
+  handle().catch(error => {
+    if (res.headersSent || res.destroyed) return;
+    if (error instanceof HttpError) return sendJson(res, error.status, { error: error.message });
+    // Bad PDFs, passwords and unreachable URLs are the caller's to fix
+    if (error instanceof RenderError || error instanceof RemoteFetchError) {
+      return sendJson(res, 422, { error: error.message });
+    }
+    console.error(`${route} failed:`, error);
+    sendJson(res, 500, { error: 'Rendering failed' });
+  }).finally(() => {
+    // Stop reading whatever is left of a refused upload
+    if (req.complete) return;
+    if (res.writableFinished) req.destroy();
+    else res.once('finish', () => req.destroy());
+  });
+});
+
+const run = async (argv: string[]) => {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      port: { type: 'string', default: String(DEFAULT_PORT) },
+      host: { type: 'string', default: '127.0.0.1' },
+      presets: { type: 'string', short: 'p' },
+      'max-upload': { type: 'string' },
+      'allow-remote': { type: 'boolean', default: false },
+      help: { type: 'boolean', short: 'h', default: false }
+    }
+  });
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) throw new UsageError('--port must be a port number');
+  const maxUploadMB = values['max-upload'] === undefined ? MAX_PDF_BYTES / 1024 / 1024 : Number(values['max-upload']);
+  if (!Number.isFinite(maxUploadMB) || maxUploadMB <= 0) throw new UsageError('--max-upload must be a positive number');
+
+  const presets: StylePreset[] = values.presets
+    ? parsePresetFile(await readFile(values.presets, 'utf8'), DEFAULT_STYLE)
+    : [{ ...DEFAULT_STYLE, id: DEFAULT_PRESET_ID, name: 'Default', updatedAt: new Date(0).toISOString() }];
+  if (presets.length === 0) throw new UsageError('The preset file is empty');
+
+  const server = createServer({
+    presets,
+    maxUploadBytes: Math.round(maxUploadMB * 1024 * 1024),
+    allowRemote: values['allow-remote'] ?? false
+  });
+  server.listen(port, values.host, () => {
+    const address = server.address();
+    const where = typeof address === 'object' && address ? `${values.host}:${address.port}` : String(address);
+    console.error(`Rendering marketing images on http://${where} with ${presets.length} preset(s)`);
+  });
+  const stop = () => server.close(() => process.exit(0));
+  process.once('SIGINT', stop);
+  process.once('SIGTERM', stop);
+};
+
+run(process.argv.slice(2)).catch(error => {
+  if (error instanceof UsageError || (error as { code?: string }).code?.startsWith('ERR_PARSE_ARGS')) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -13,6 +13,7 @@ import { ExpirationPlugin } from 'workbox-expiration';
 import { precacheAndRoute, createHandlerBoundToURL } from 'workbox-precaching';
 import { registerRoute } from 'workbox-routing';
 import { StaleWhileRevalidate } from 'workbox-strategies';
+import pdfjsPackage from 'pdfjs-dist/package.json';
 
 declare const self: ServiceWorkerGlobalScope;
 
@@ -22,7 +23,16 @@ clientsClaim();
 // Their URLs are injected into the manifest variable below.
 // This variable must be present somewhere in your service worker file,
 // even if you decide not to use precaching. See https://cra.link/PWA
-precacheAndRoute(self.__WB_MANIFEST);
+// Files in public/ aren't part of the webpack build, so the ones the app needs
+// offline are listed here. Bump PUBLIC_ASSET_REVISION when any of them change;
+// the pdf.js worker is versioned with the pdfjs-dist package it was copied from.
+const PUBLIC_ASSET_REVISION = '1';
+precacheAndRoute([
+  ...self.__WB_MANIFEST,
+  { url: `${process.env.PUBLIC_URL}/pdf.worker.min.js`, revision: pdfjsPackage.version },
+  ...['/default-background.svg', '/manifest.json', '/favicon.ico', '/logo192.png', '/logo512.png']
+    .map(path => ({ url: process.env.PUBLIC_URL + path, revision: PUBLIC_ASSET_REVISION }))
+]);
 
 // Set up App Shell-style routing, so that all navigation requests
 // are fulfilled with your index.html shell. Learn more at
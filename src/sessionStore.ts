@@ -0,0 +1,136 @@
+import { LayoutSettings, MarketingImage } from './types.ts';
+import { BackgroundStyle } from './backgroundStyle.ts';
+import { TextLayer } from './textLayers.ts';
+import { BrandLayers } from './brandLayers.ts';
+import { ExportSettings } from './imageEncoding.ts';
+
+// The working session is kept in IndexedDB so a reload can pick up where it left off.
+// PDF bytes live in their own store so they are written once rather than on every change.
+
+const DB_NAME = 'pdf-marketing-app';
+const DB_VERSION = 1;
+const SESSION_STORE = 'session';
+const PDF_STORE = 'pdfs';
+const SESSION_KEY = 'current';
+
+export interface SessionFile {
+  // Content hash of the PDF; keys its bytes in the pdfs store and its generated images
+  key: string;
+  title: string;
+  selectedPages: (number | null)[];
+  settings: LayoutSettings;
+  textLayers: TextLayer[];
+}
+
+export interface SessionSnapshot {
+  savedAt: string;
+  backgroundImage: string | null;
+  backgroundStyle: BackgroundStyle;
+  brandLayers: BrandLayers;
+  exportSettings: ExportSettings;
+  activePresetId: string | null;
+  files: SessionFile[];
+  marketingImages: { [key: string]: MarketingImage[] };
+}
+
+export interface StoredSession extends SessionSnapshot {
+  // Source PDFs by SessionFile key; files whose bytes went missing are absent
+  pdfs: Map<string, File>;
+}
+
+export interface StorageUsage {
+  usage: number;
+  quota: number;
+}
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Session transaction aborted'));
+  });
+
+let database: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(SESSION_STORE);
+      request.result.createObjectStore(PDF_STORE);
+    };
+    database = requestResult(request);
+    // Let a later call try again rather than caching the failure
+    database.catch(() => {
+      database = null;
+    });
+  }
+  return database;
+};
+
+export const isSessionStorageAvailable = () => typeof indexedDB !== 'undefined';
+
+/**
+ * Save the session, adding PDFs the store doesn't have yet and dropping those
+ * no longer in use. `pdfs` maps SessionFile keys to their source files.
+ */
+export const saveSession = async (snapshot: SessionSnapshot, pdfs: Map<string, Blob>) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, PDF_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(SESSION_STORE).put(snapshot, SESSION_KEY);
+
+  const pdfStore = transaction.objectStore(PDF_STORE);
+  const keysRequest = pdfStore.getAllKeys();
+  // Issue the follow-up writes from the callback so the transaction stays open
+  keysRequest.onsuccess = () => {
+    const stored = new Set(keysRequest.result.map(String));
+    stored.forEach(key => {
+      if (!pdfs.has(key)) pdfStore.delete(key);
+    });
+    pdfs.forEach((blob, key) => {
+      if (!stored.has(key)) pdfStore.put(blob, key);
+    });
+  };
+  await done;
+};
+
+export const loadSession = async (): Promise<StoredSession | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, PDF_STORE], 'readonly');
+  const [snapshot, keys, files] = await Promise.all([
+    requestResult(transaction.objectStore(SESSION_STORE).get(SESSION_KEY)) as Promise<SessionSnapshot | undefined>,
+    requestResult(transaction.objectStore(PDF_STORE).getAllKeys()),
+    requestResult(transaction.objectStore(PDF_STORE).getAll()) as Promise<File[]>
+  ]);
+  if (!snapshot) return null;
+  return { ...snapshot, pdfs: new Map(keys.map((key, i) => [String(key), files[i]])) };
+};
+
+export const clearSession = async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction([SESSION_STORE, PDF_STORE], 'readwrite');
+  const done = transactionDone(transaction);
+  transaction.objectStore(SESSION_STORE).clear();
+  transaction.objectStore(PDF_STORE).clear();
+  await done;
+};
+
+// How much this origin has stored, where the browser reports it
+export const estimateStorage = async (): Promise<StorageUsage | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const { usage, quota } = await navigator.storage.estimate();
+  return usage !== undefined && quota !== undefined ? { usage, quota } : null;
+};
+
+export const formatStorageSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.ceil(bytes / 1024)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  return `${(bytes / 1024 / 1024 / 1024).toFixed(1)} GB`;
+};
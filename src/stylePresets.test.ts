@@ -0,0 +1,108 @@
+import { DEFAULT_PAGE_STYLE } from './pageStyle.ts';
+import { DEFAULT_MOCKUP } from './mockups.ts';
+import { DEFAULT_BRAND_LAYERS } from './brandLayers.ts';
+import { DEFAULT_BACKGROUND_STYLE } from './backgroundStyle.ts';
+import { DEFAULT_EXPORT_SETTINGS } from './imageEncoding.ts';
+import { createDefaultTextLayers } from './textLayers.ts';
+import {
+  PRESET_FILE_FORMAT, PresetStyle, StylePreset, applyPresetTextLayers, loadStoredPresets, parsePresetFile,
+  parsePresetStyle, serializePresets
+} from './stylePresets.ts';
+
+const fallback: PresetStyle = {
+  backgroundImage: null,
+  backgroundStyle: DEFAULT_BACKGROUND_STYLE,
+  settings: {
+    templateId: 'fan-3',
+    pageSize: 400,
+    tiltAngle: 15,
+    overlap: 50,
+    pageStyle: DEFAULT_PAGE_STYLE,
+    mockup: DEFAULT_MOCKUP,
+    slotAdjustments: [],
+    outputPresetIds: ['widescreen'],
+    customWidth: 1600,
+    customHeight: 900
+  },
+  textLayers: createDefaultTextLayers(''),
+  brandLayers: DEFAULT_BRAND_LAYERS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS
+};
+
+const preset: StylePreset = {
+  ...fallback,
+  id: 'preset-1',
+  name: 'Brochure',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  settings: { ...fallback.settings, templateId: 'hero', pageSize: 520 },
+  exportSettings: { format: 'jpeg', quality: 80, maxSizeKB: 300 }
+};
+
+test('presets survive a round trip through the JSON file format', () => {
+  expect(parsePresetFile(serializePresets([preset]), fallback)).toEqual([preset]);
+});
+
+test('fields missing from older presets take their defaults', () => {
+  const json = JSON.stringify({
+    format: PRESET_FILE_FORMAT,
+    version: 1,
+    presets: [{ id: 'old', name: 'Old style', settings: { tiltAngle: 5 } }]
+  });
+  const [parsed] = parsePresetFile(json, fallback);
+  expect(parsed.settings).toEqual({ ...fallback.settings, tiltAngle: 5 });
+  expect(parsed.brandLayers).toEqual(DEFAULT_BRAND_LAYERS);
+  expect(parsed.backgroundStyle).toEqual(DEFAULT_BACKGROUND_STYLE);
+});
+
+test('invalid presets are rejected with the offending fields', () => {
+  const json = JSON.stringify({
+    format: PRESET_FILE_FORMAT,
+    version: 1,
+    presets: [{ name: 'Broken', settings: { templateId: 'nope', pageSize: 'big' } }]
+  });
+  expect(() => parsePresetFile(json, fallback)).toThrow(/settings\.pageSize.*settings\.templateId/);
+  expect(() => parsePresetFile('{"format":"other"}', fallback)).toThrow('Not a preset file');
+  expect(() => parsePresetFile(JSON.stringify({ format: PRESET_FILE_FORMAT, version: 99, presets: [] }), fallback))
+    .toThrow(/newer/);
+});
+
+test('numbers outside the editors\' limits are rejected', () => {
+  const importing = (raw: object) => () => parsePresetFile(
+    JSON.stringify({ format: PRESET_FILE_FORMAT, version: 1, presets: [{ name: 'Out of range', ...raw }] }),
+    fallback
+  );
+  expect(importing({ settings: { pageSize: 1e6 } })).toThrow(/settings\.pageSize should be between 100 and 600/);
+  expect(importing({ settings: { mockup: { thickness: -5 } } })).toThrow(/settings\.mockup\.thickness/);
+  expect(importing({ backgroundStyle: { blur: -1 } })).toThrow(/backgroundStyle\.blur/);
+  expect(importing({ brandLayers: { watermark: { spacing: -1000 } } })).toThrow(/watermark\.spacing/);
+  expect(importing({ brandLayers: { watermark: { fontSize: 0 } } })).toThrow(/watermark\.fontSize/);
+  expect(importing({ exportSettings: { quality: 150 } })).toThrow(/exportSettings\.quality/);
+  expect(importing({ exportSettings: { maxSizeKB: 0 } })).toThrow(/exportSettings\.maxSizeKB/);
+  expect(importing({ textLayers: [{ kind: 'headline', fontSize: 0 }] })).toThrow(/textLayers\[0\]\.fontSize/);
+  expect(() => parsePresetStyle({ brandLayers: { watermark: { spacing: -1000 } } }, preset))
+    .toThrow(/Invalid style: .*watermark\.spacing/);
+});
+
+test('one saved preset that fails validation leaves the others loading', () => {
+  const broken = { ...preset, id: 'preset-2', settings: { ...preset.settings, pageSize: 1e6 } };
+  window.localStorage.setItem('pdf-marketing-app.presets', serializePresets([preset, broken]));
+  jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+  expect(loadStoredPresets(fallback)).toEqual([preset]);
+  window.localStorage.clear();
+});
+
+test('a style on its own overrides only the fields it names', () => {
+  const style = parsePresetStyle({ settings: { templateId: 'grid' }, exportSettings: { format: 'webp' } }, preset);
+  expect(style.settings).toEqual({ ...preset.settings, templateId: 'grid' });
+  expect(style.exportSettings).toEqual({ ...preset.exportSettings, format: 'webp' });
+  expect(style.textLayers).toBe(preset.textLayers);
+  expect(style).not.toHaveProperty('name');
+  expect(() => parsePresetStyle({ backgroundStyle: { kind: 'plaid' } }, preset)).toThrow(/Invalid style: .*kind/);
+  expect(() => parsePresetStyle([], preset)).toThrow(/should be an object/);
+});
+
+test('applying a preset keeps each layer\'s wording', () => {
+  const styled = createDefaultTextLayers('Preset headline').map(layer => ({ ...layer, color: '#ff0000' }));
+  const [headline] = applyPresetTextLayers(styled, createDefaultTextLayers('Annual report'));
+  expect(headline).toMatchObject({ text: 'Annual report', color: '#ff0000' });
+});
@@ -0,0 +1,326 @@
+import { LayoutSettings } from './types.ts';
+import { DEFAULT_TEMPLATE_ID, LAYOUT_TEMPLATES } from './layoutTemplates.ts';
+import {
+  CUSTOM_PRESET_ID, DEFAULT_OUTPUT_PRESET_ID, MAX_OUTPUT_DIMENSION, MIN_OUTPUT_DIMENSION, OUTPUT_PRESETS
+} from './outputPresets.ts';
+import { LAYER_ANCHORS, TEXT_LAYER_LABELS, TEXT_LAYER_LIMITS, TextLayer, createDefaultTextLayers } from './textLayers.ts';
+import { BrandLayers, DEFAULT_BRAND_LAYERS, LOGO_ANCHORS } from './brandLayers.ts';
+import { DEFAULT_EXPORT_SETTINGS, EXPORT_FORMATS, ExportSettings } from './imageEncoding.ts';
+import { DEFAULT_MOCKUP, MOCKUP_MODES } from './mockups.ts';
+import { DEFAULT_PAGE_STYLE } from './pageStyle.ts';
+import {
+  BACKGROUND_FITS, BACKGROUND_KINDS, BackgroundStyle, DEFAULT_BACKGROUND_STYLE
+} from './backgroundStyle.ts';
+
+// Everything a house style fixes; slot adjustments are per document and left out
+export interface PresetStyle {
+  backgroundImage: string | null;
+  backgroundStyle: BackgroundStyle;
+  settings: LayoutSettings;
+  textLayers: TextLayer[];
+  brandLayers: BrandLayers;
+  exportSettings: ExportSettings;
+}
+
+export interface StylePreset extends PresetStyle {
+  id: string;
+  name: string;
+  updatedAt: string;
+}
+
+// Team default that every newly loaded PDF starts from. Pages are kept small enough
+// that a tilted fan leaves room above and below it on the canvas.
+export const DEFAULT_LAYOUT_SETTINGS: LayoutSettings = {
+  templateId: DEFAULT_TEMPLATE_ID,
+  pageSize: 300,
+  tiltAngle: 15,
+  overlap: 50,
+  pageStyle: DEFAULT_PAGE_STYLE,
+  mockup: DEFAULT_MOCKUP,
+  slotAdjustments: [],
+  outputPresetIds: [DEFAULT_OUTPUT_PRESET_ID],
+  customWidth: 1600,
+  customHeight: 900
+};
+
+// Fills in anything an older or hand-written preset leaves out. The default
+// background image lives wherever the app is served from, so callers supply it.
+export const defaultPresetStyle = (backgroundImage: string | null): PresetStyle => ({
+  backgroundImage,
+  backgroundStyle: DEFAULT_BACKGROUND_STYLE,
+  settings: DEFAULT_LAYOUT_SETTINGS,
+  textLayers: createDefaultTextLayers(''),
+  brandLayers: DEFAULT_BRAND_LAYERS,
+  exportSettings: DEFAULT_EXPORT_SETTINGS
+});
+
+export const PRESET_FILE_FORMAT = 'pdf-marketing-presets';
+export const PRESET_FILE_VERSION = 1;
+
+export interface PresetFile {
+  format: typeof PRESET_FILE_FORMAT;
+  version: number;
+  presets: StylePreset[];
+}
+
+const STORAGE_KEY = 'pdf-marketing-app.presets';
+
+// Upgrades a preset file from version N to N + 1. Add an entry whenever the
+// preset shape changes so files shared by colleagues keep importing.
+const MIGRATIONS: Record<number, (file: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export const createPresetId = () => `preset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+type Json = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Json =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Check a value against the shape of a known-good fallback. Missing fields take
+ * the fallback's value so older presets pick up new settings; fields of the
+ * wrong type are reported as problems.
+ */
+const conform = <T>(value: unknown, fallback: T, path: string, problems: string[]): T => {
+  if (value === undefined) return fallback;
+  if (fallback === null) {
+    if (value === null || typeof value === 'string' || typeof value === 'number') return value as T;
+    problems.push(`${path} should be a string, number or null`);
+    return fallback;
+  }
+  if (Array.isArray(fallback)) {
+    if (Array.isArray(value) && value.every(item => typeof item === 'string')) return value as T;
+    problems.push(`${path} should be a list of strings`);
+    return fallback;
+  }
+  if (isRecord(fallback)) {
+    if (!isRecord(value)) {
+      problems.push(`${path} should be an object`);
+      return fallback;
+    }
+    const result: Json = { ...fallback };
+    Object.keys(fallback).forEach(key => {
+      result[key] = conform(value[key], fallback[key], `${path}.${key}`, problems);
+    });
+    return result as T;
+  }
+  if (typeof value === typeof fallback && (typeof value !== 'number' || Number.isFinite(value))) return value as T;
+  problems.push(`${path} should be a ${typeof fallback}`);
+  return fallback;
+};
+
+const oneOf = (value: unknown, allowed: readonly unknown[], path: string, problems: string[]) => {
+  if (!allowed.includes(value)) problems.push(`${path} has unknown value ${JSON.stringify(value)}`);
+};
+
+type Range = [min: number, max: number];
+
+// Limits of the editors' sliders and fields, so a preset file can't hold values the
+// app would never set itself. Fields only a file can change get limits that keep
+// drawing sane: a watermark with no spacing, for one, would tile forever.
+const STYLE_RANGES: Record<string, Range> = {
+  'settings.pageSize': [100, 600],
+  'settings.tiltAngle': [0, 45],
+  'settings.overlap': [0, 300],
+  'settings.customWidth': [MIN_OUTPUT_DIMENSION, MAX_OUTPUT_DIMENSION],
+  'settings.customHeight': [MIN_OUTPUT_DIMENSION, MAX_OUTPUT_DIMENSION],
+  'settings.mockup.angle': [0, 60],
+  'settings.mockup.thickness': [0, 80],
+  'settings.pageStyle.shadowBlur': [0, 80],
+  'settings.pageStyle.shadowOffsetX': [-50, 50],
+  'settings.pageStyle.shadowOffsetY': [-50, 50],
+  'settings.pageStyle.shadowOpacity': [0, 1],
+  'settings.pageStyle.borderWidth': [0, 20],
+  'settings.pageStyle.cornerRadius': [0, 60],
+  'settings.pageStyle.sheen': [0, 1],
+  'backgroundStyle.gradientAngle': [0, 360],
+  'backgroundStyle.focusX': [0, 1],
+  'backgroundStyle.focusY': [0, 1],
+  'backgroundStyle.zoom': [0.1, 4],
+  'backgroundStyle.blur': [0, 40],
+  'backgroundStyle.tintOpacity': [0, 0.9],
+  'backgroundStyle.vignette': [0, 1],
+  'brandLayers.logo.margin': [0, 500],
+  'brandLayers.logo.scale': [0.05, 0.5],
+  'brandLayers.logo.opacity': [0, 1],
+  'brandLayers.watermark.opacity': [0.05, 1],
+  'brandLayers.watermark.fontSize': [8, 400],
+  'brandLayers.watermark.angle': [-180, 180],
+  'brandLayers.watermark.spacing': [0, 1000],
+  'exportSettings.quality': [10, 100]
+};
+
+const TEXT_LAYER_RANGES: Record<string, Range> = {
+  ...TEXT_LAYER_LIMITS,
+  fontWeight: [100, 900],
+  'background.paddingX': [0, 200],
+  'background.paddingY': [0, 200],
+  'background.radius': [0, 999]
+};
+
+const checkRanges = (value: unknown, ranges: Record<string, Range>, path: string, problems: string[]) => {
+  Object.entries(ranges).forEach(([key, [min, max]]) => {
+    const field = key.split('.').reduce<unknown>(
+      (parent, part) => (isRecord(parent) ? parent[part] : undefined),
+      value
+    );
+    if (typeof field === 'number' && (field < min || field > max)) {
+      problems.push(`${path}.${key} should be between ${min} and ${max}`);
+    }
+  });
+};
+
+const validateTextLayers = (value: unknown, path: string, problems: string[]): TextLayer[] => {
+  const defaults = createDefaultTextLayers('');
+  if (!Array.isArray(value)) {
+    if (value !== undefined) problems.push(`${path} should be a list`);
+    return defaults;
+  }
+  return value.flatMap((raw, i) => {
+    const kind = isRecord(raw) ? raw.kind : undefined;
+    const fallback = defaults.find(layer => layer.kind === kind);
+    if (!fallback) {
+      problems.push(`${path}[${i}].kind should be one of ${Object.keys(TEXT_LAYER_LABELS).join(', ')}`);
+      return [];
+    }
+    const layer = conform(raw, fallback, `${path}[${i}]`, problems);
+    oneOf(layer.anchor, LAYER_ANCHORS, `${path}[${i}].anchor`, problems);
+    oneOf(layer.align, ['left', 'center', 'right'], `${path}[${i}].align`, problems);
+    checkRanges(layer, TEXT_LAYER_RANGES, `${path}[${i}]`, problems);
+    return [layer];
+  });
+};
+
+const validatePreset = (raw: unknown, fallback: PresetStyle, path: string, problems: string[]): StylePreset => {
+  if (!isRecord(raw)) {
+    problems.push(`${path} should be an object`);
+    return { ...fallback, id: '', name: '', updatedAt: '' };
+  }
+  // Slot adjustments never travel with a preset, so ignore whatever a hand-edited file holds
+  const rawSettings = isRecord(raw.settings) ? { ...raw.settings, slotAdjustments: undefined } : raw.settings;
+  const settings = conform(rawSettings, fallback.settings, `${path}.settings`, problems);
+  const brandLayers = conform(raw.brandLayers, fallback.brandLayers, `${path}.brandLayers`, problems);
+  const exportSettings = conform(raw.exportSettings, fallback.exportSettings, `${path}.exportSettings`, problems);
+  const backgroundStyle = conform(raw.backgroundStyle, fallback.backgroundStyle, `${path}.backgroundStyle`, problems);
+
+  if (typeof raw.name !== 'string' || !raw.name.trim()) problems.push(`${path}.name is required`);
+  oneOf(settings.templateId, LAYOUT_TEMPLATES.map(template => template.id), `${path}.settings.templateId`, problems);
+  oneOf(settings.mockup.mode, MOCKUP_MODES.map(option => option.mode), `${path}.settings.mockup.mode`, problems);
+  settings.outputPresetIds.forEach(id => oneOf(
+    id, [...OUTPUT_PRESETS.map(preset => preset.id), CUSTOM_PRESET_ID], `${path}.settings.outputPresetIds`, problems
+  ));
+  if (settings.outputPresetIds.length === 0) problems.push(`${path}.settings.outputPresetIds must not be empty`);
+  oneOf(backgroundStyle.kind, BACKGROUND_KINDS.map(option => option.kind), `${path}.backgroundStyle.kind`, problems);
+  oneOf(backgroundStyle.fit, BACKGROUND_FITS.map(option => option.fit), `${path}.backgroundStyle.fit`, problems);
+  if (backgroundStyle.gradientColors.length === 0) problems.push(`${path}.backgroundStyle.gradientColors must not be empty`);
+  oneOf(brandLayers.logo.anchor, LOGO_ANCHORS, `${path}.brandLayers.logo.anchor`, problems);
+  oneOf(exportSettings.format, EXPORT_FORMATS.map(info => info.format), `${path}.exportSettings.format`, problems);
+  const { maxSizeKB } = exportSettings;
+  if (maxSizeKB !== null && (typeof maxSizeKB !== 'number' || maxSizeKB <= 0)) {
+    problems.push(`${path}.exportSettings.maxSizeKB should be a positive number or null`);
+  }
+  checkRanges({ settings, backgroundStyle, brandLayers, exportSettings }, STYLE_RANGES, path, problems);
+
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createPresetId(),
+    name: typeof raw.name === 'string' ? raw.name.trim() : '',
+    updatedAt: typeof raw.updatedAt === 'string' ? raw.updatedAt : new Date().toISOString(),
+    backgroundImage: conform(raw.backgroundImage, fallback.backgroundImage, `${path}.backgroundImage`, problems),
+    backgroundStyle,
+    settings: { ...settings, slotAdjustments: [] },
+    textLayers: validateTextLayers(raw.textLayers, `${path}.textLayers`, problems),
+    brandLayers,
+    exportSettings
+  };
+};
+
+const reportProblems = (label: string, problems: string[]) => {
+  if (problems.length > 0) {
+    throw new Error(`${label}: ${problems.slice(0, 5).join('; ')}${problems.length > 5 ? '; …' : ''}`);
+  }
+};
+
+/**
+ * Parse a preset file, upgrading older versions and validating every preset
+ * against `fallback`. Throws with a list of problems if anything is invalid.
+ */
+export const parsePresetFile = (json: string, fallback: PresetStyle): StylePreset[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('Preset file is not valid JSON');
+  }
+  if (!isRecord(data) || data.format !== PRESET_FILE_FORMAT) {
+    throw new Error('Not a preset file');
+  }
+  if (typeof data.version !== 'number' || data.version < 1) {
+    throw new Error('Preset file has no version');
+  }
+  if (data.version > PRESET_FILE_VERSION) {
+    throw new Error(`Preset file version ${data.version} is newer than this app supports (${PRESET_FILE_VERSION})`);
+  }
+
+  let file: Json = data;
+  for (let version = data.version; version < PRESET_FILE_VERSION; version++) {
+    file = { ...MIGRATIONS[version](file), version: version + 1 };
+  }
+
+  if (!Array.isArray(file.presets)) throw new Error('Preset file has no presets');
+  const problems: string[] = [];
+  const presets = file.presets.map((raw, i) => validatePreset(raw, fallback, `presets[${i}]`, problems));
+  reportProblems('Invalid preset file', problems);
+  return presets;
+};
+
+/**
+ * Validate a style given on its own rather than in a preset file, such as the
+ * overrides sent with a render request. Fields it leaves out, including the
+ * text layers, keep `fallback`'s values. Throws with a list of problems.
+ */
+export const parsePresetStyle = (raw: unknown, fallback: PresetStyle): PresetStyle => {
+  const problems: string[] = [];
+  // A style has no name; give it one so the preset checks pass
+  const named = isRecord(raw) ? { ...raw, name: 'style' } : raw;
+  const { id, name, updatedAt, ...style } = validatePreset(named, fallback, 'style', problems);
+  reportProblems('Invalid style', problems);
+  return isRecord(raw) && raw.textLayers === undefined ? { ...style, textLayers: fallback.textLayers } : style;
+};
+
+export const serializePresets = (presets: StylePreset[]): string => {
+  const file: PresetFile = { format: PRESET_FILE_FORMAT, version: PRESET_FILE_VERSION, presets };
+  return JSON.stringify(file, null, 2);
+};
+
+// Presets saved in this browser; anything unreadable is dropped rather than blocking startup
+export const loadStoredPresets = (fallback: PresetStyle): StylePreset[] => {
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY);
+    if (!stored) return [];
+    // Check presets one at a time, so one that tighter limits now reject doesn't take the rest with it
+    const file = JSON.parse(stored);
+    return (Array.isArray(file.presets) ? file.presets : []).flatMap((preset: unknown) => {
+      try {
+        return parsePresetFile(JSON.stringify({ ...file, presets: [preset] }), fallback);
+      } catch (error) {
+        console.warn('Ignoring saved preset:', error);
+        return [];
+      }
+    });
+  } catch (error) {
+    console.warn('Ignoring saved presets:', error);
+    return [];
+  }
+};
+
+// Throws if the browser refuses the write, usually because large logos exceeded the quota
+export const saveStoredPresets = (presets: StylePreset[]) => {
+  window.localStorage.setItem(STORAGE_KEY, serializePresets(presets));
+};
+
+// Take a preset's text styling while keeping each layer's existing wording
+export const applyPresetTextLayers = (presetLayers: TextLayer[], current: TextLayer[]): TextLayer[] =>
+  presetLayers.map(layer => ({
+    ...layer,
+    text: current.find(existing => existing.kind === layer.kind)?.text ?? layer.text
+  }));
@@ -0,0 +1,209 @@
+import { CanvasSize } from './layoutTemplates.ts';
+import { roundedRectPath } from './canvasUtils.ts';
+
+export type LayerAnchor =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export type TextLayerKind = 'headline' | 'subtitle' | 'cta';
+
+export interface TextBackground {
+  enabled: boolean;
+  color: string;
+  paddingX: number;
+  paddingY: number;
+  radius: number;
+}
+
+// Sizes, offsets and widths are in reference canvas pixels and scale with the output
+export interface TextLayer {
+  kind: TextLayerKind;
+  enabled: boolean;
+  text: string;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;
+  color: string;
+  align: 'left' | 'center' | 'right';
+  anchor: LayerAnchor;
+  offsetX: number;
+  offsetY: number;
+  maxWidth: number;
+  background: TextBackground;
+}
+
+export const LAYER_ANCHORS: LayerAnchor[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right'
+];
+
+export const FONT_FAMILIES = [
+  'Roboto, sans-serif',
+  'Arial, sans-serif',
+  'Helvetica, Arial, sans-serif',
+  'Georgia, serif',
+  '"Times New Roman", serif',
+  'Verdana, sans-serif',
+  '"Trebuchet MS", sans-serif',
+  '"Courier New", monospace'
+];
+
+export const TEXT_LAYER_LABELS: Record<TextLayerKind, string> = {
+  headline: 'Headline',
+  subtitle: 'Subtitle',
+  cta: 'Call to action'
+};
+
+// Limits of the text editor's number fields, in reference canvas pixels
+export const TEXT_LAYER_LIMITS: Record<'fontSize' | 'offsetX' | 'offsetY' | 'maxWidth', [number, number]> = {
+  fontSize: [8, 400],
+  offsetX: [-1280, 1280],
+  offsetY: [-1280, 1280],
+  maxWidth: [20, 1280]
+};
+
+// Distance kept between anchored layers and the canvas edge
+const EDGE_MARGIN = 40;
+
+const NO_BACKGROUND: TextBackground = { enabled: false, color: '#000000', paddingX: 24, paddingY: 12, radius: 999 };
+
+export const createDefaultTextLayers = (headline: string): TextLayer[] => [
+  {
+    kind: 'headline',
+    enabled: true,
+    text: headline,
+    fontFamily: FONT_FAMILIES[0],
+    fontSize: 48,
+    fontWeight: 700,
+    color: '#ffffff',
+    align: 'center',
+    anchor: 'top',
+    offsetX: 0,
+    offsetY: 0,
+    maxWidth: 1000,
+    background: { ...NO_BACKGROUND }
+  },
+  {
+    kind: 'subtitle',
+    enabled: false,
+    text: '',
+    fontFamily: FONT_FAMILIES[0],
+    fontSize: 28,
+    fontWeight: 400,
+    color: '#ffffff',
+    align: 'center',
+    anchor: 'top',
+    offsetX: 0,
+    offsetY: 70,
+    maxWidth: 1000,
+    background: { ...NO_BACKGROUND }
+  },
+  {
+    kind: 'cta',
+    enabled: true,
+    text: 'Download the free guide',
+    fontFamily: FONT_FAMILIES[0],
+    fontSize: 28,
+    fontWeight: 700,
+    color: '#ffffff',
+    align: 'center',
+    anchor: 'bottom',
+    offsetX: 0,
+    offsetY: 0,
+    maxWidth: 800,
+    background: { ...NO_BACKGROUND, enabled: true, color: '#1976d2' }
+  }
+];
+
+export const fontString = (layer: TextLayer, scale: number) =>
+  `${layer.fontWeight} ${layer.fontSize * scale}px ${layer.fontFamily}`;
+
+// Greedy word wrap; a single word wider than maxWidth gets a line of its own
+export const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split('\n')) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && ctx.measureText(candidate).width > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Top-left corner of a box of the given size placed at an anchor
+export const anchorBox = (
+  anchor: LayerAnchor,
+  box: CanvasSize,
+  canvas: CanvasSize,
+  margin: number
+): { x: number; y: number } => {
+  const [vertical, horizontal] = anchor === 'center'
+    ? ['center', 'center']
+    : anchor.includes('-')
+      ? anchor.split('-')
+      : anchor === 'left' || anchor === 'right' ? ['center', anchor] : [anchor, 'center'];
+  const x = horizontal === 'left'
+    ? margin
+    : horizontal === 'right' ? canvas.width - margin - box.width : (canvas.width - box.width) / 2;
+  const y = vertical === 'top'
+    ? margin
+    : vertical === 'bottom' ? canvas.height - margin - box.height : (canvas.height - box.height) / 2;
+  return { x, y };
+};
+
+export const drawTextLayer = (
+  ctx: CanvasRenderingContext2D,
+  layer: TextLayer,
+  canvas: CanvasSize,
+  scale: number
+) => {
+  if (!layer.enabled || !layer.text.trim()) return;
+
+  ctx.save();
+  ctx.font = fontString(layer, scale);
+  ctx.textBaseline = 'top';
+  const lines = wrapText(ctx, layer.text, layer.maxWidth * scale);
+  const lineHeight = layer.fontSize * scale * 1.2;
+  const textWidth = Math.max(...lines.map(line => ctx.measureText(line).width));
+  const textHeight = lines.length * lineHeight;
+
+  const padX = layer.background.enabled ? layer.background.paddingX * scale : 0;
+  const padY = layer.background.enabled ? layer.background.paddingY * scale : 0;
+  const box = { width: textWidth + padX * 2, height: textHeight + padY * 2 };
+  const origin = anchorBox(layer.anchor, box, canvas, EDGE_MARGIN * scale);
+  const x = origin.x + layer.offsetX * scale;
+  const y = origin.y + layer.offsetY * scale;
+
+  if (layer.background.enabled) {
+    ctx.fillStyle = layer.background.color;
+    roundedRectPath(ctx, x, y, box.width, box.height, layer.background.radius * scale);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = layer.color;
+  ctx.textAlign = layer.align;
+  const lineX = layer.align === 'left'
+    ? x + padX
+    : layer.align === 'right' ? x + padX + textWidth : x + padX + textWidth / 2;
+  lines.forEach((line, i) => ctx.fillText(line, lineX, y + padY + i * lineHeight));
+  ctx.restore();
+};
+
+// Make sure web fonts are ready before drawing, otherwise the canvas silently uses a fallback
+export const loadLayerFonts = async (layers: TextLayer[]) => {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  await Promise.all(
+    layers
+      .filter(layer => layer.enabled && layer.text.trim())
+      .map(layer => document.fonts.load(fontString(layer, 1), layer.text).catch(() => undefined))
+  );
+};
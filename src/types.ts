@@ -0,0 +1,58 @@
+import { EncodedImage } from './imageEncoding.ts';
+import { TextLayer } from './textLayers.ts';
+import { PageStyle } from './pageStyle.ts';
+import { MockupSettings } from './mockups.ts';
+import { SlotAdjustment } from './layoutTemplates.ts';
+import { RasterDocument } from './pageRasterizer.ts';
+import { PaletteColor } from './colorPalette.ts';
+
+export interface PDFPage {
+  pageNum: number;
+  // Small preview rendered progressively after load; full-size pages come from the document on demand
+  thumbnail: Blob | null;
+  thumbnailUrl: string | null;
+  // Visual interest, see scorePage; null until the thumbnail is rendered
+  score: number | null;
+  // Dominant colours of the page, null until the thumbnail is rendered
+  palette: PaletteColor[] | null;
+  // Why the page could not be rendered; the rest of the document is still usable
+  error: string | null;
+}
+
+export interface LayoutSettings {
+  templateId: string;
+  pageSize: number;
+  tiltAngle: number;
+  overlap: number;
+  pageStyle: PageStyle;
+  mockup: MockupSettings;
+  // Per-slot tweaks from dragging pages in the preview; cleared when the template changes
+  slotAdjustments: (SlotAdjustment | null)[];
+  // Every selected output preset is rendered for this PDF
+  outputPresetIds: string[];
+  customWidth: number;
+  customHeight: number;
+}
+
+export interface PDFFile {
+  // Content hash of the file (see fileIdentity); keys everything stored per PDF
+  id: string;
+  file: File;
+  // Title from the document metadata, falling back to the file name
+  title: string;
+  document: RasterDocument;
+  pages: PDFPage[];
+  // One page number per slot of the selected layout template
+  selectedPages: (number | null)[];
+  settings: LayoutSettings;
+  textLayers: TextLayer[];
+}
+
+export interface MarketingImage extends EncodedImage {
+  presetId: string;
+  width: number;
+  height: number;
+  // Snapshot of what the image was generated from, used for export manifests
+  selectedPages: (number | null)[];
+  settings: LayoutSettings;
+}
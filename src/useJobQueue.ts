@@ -0,0 +1,139 @@
+import { useCallback, useRef, useState } from 'react';
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface Job<T> {
+  id: number;
+  label: string;
+  payload: T;
+  status: JobStatus;
+  // What the job is doing right now, e.g. "Rendering page 3/12"
+  step: string;
+  // 0-1 through the current step, or null when it can't be measured
+  progress: number | null;
+  error: string | null;
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  report: (step: string, progress?: number | null) => void;
+}
+
+export type JobRunner<T> = (payload: T, context: JobContext) => Promise<void>;
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+// Call between steps so a cancelled job stops at the next safe point
+export const throwIfCancelled = (signal: AbortSignal) => {
+  if (signal.aborted) throw new JobCancelledError();
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error && error.message ? error.message : String(error);
+
+/**
+ * Run jobs one at a time, in the order they were added. Jobs share the hidden
+ * export canvas and the rasterizer worker, so running them side by side would
+ * only make each one slower. `run` is always called in its latest version, so
+ * retried jobs see current settings.
+ */
+export const useJobQueue = <T>(run: JobRunner<T>) => {
+  const [jobs, setJobs] = useState<Job<T>[]>([]);
+  const runRef = useRef(run);
+  runRef.current = run;
+  const payloads = useRef(new Map<number, T>());
+  const controllers = useRef(new Map<number, AbortController>());
+  const queue = useRef<number[]>([]);
+  const runningId = useRef<number | null>(null);
+  const nextId = useRef(1);
+
+  const update = useCallback((id: number, changes: Partial<Job<T>>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  }, []);
+
+  const pump = useCallback(async () => {
+    if (runningId.current !== null) return;
+    while (queue.current.length > 0) {
+      const id = queue.current.shift()!;
+      const controller = controllers.current.get(id);
+      if (!controller || controller.signal.aborted || !payloads.current.has(id)) continue;
+
+      runningId.current = id;
+      update(id, { status: 'running', step: 'Starting', progress: null });
+      const report = (step: string, progress: number | null = null) => {
+        if (!controller.signal.aborted) update(id, { step, progress });
+      };
+      try {
+        await runRef.current(payloads.current.get(id)!, { signal: controller.signal, report });
+        throwIfCancelled(controller.signal);
+        update(id, { status: 'done', step: 'Done', progress: 1 });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          update(id, { status: 'cancelled', step: 'Cancelled', progress: null });
+        } else {
+          console.error('Job failed:', error);
+          update(id, { status: 'failed', step: 'Failed', progress: null, error: errorMessage(error) });
+        }
+      }
+      runningId.current = null;
+    }
+  }, [update]);
+
+  const schedule = useCallback((id: number) => {
+    controllers.current.set(id, new AbortController());
+    queue.current.push(id);
+    pump();
+  }, [pump]);
+
+  const enqueue = useCallback((label: string, payload: T) => {
+    const id = nextId.current++;
+    payloads.current.set(id, payload);
+    setJobs(prev => [...prev, { id, label, payload, status: 'queued', step: 'Waiting', progress: null, error: null }]);
+    schedule(id);
+    return id;
+  }, [schedule]);
+
+  const cancel = useCallback((id: number) => {
+    controllers.current.get(id)?.abort();
+    // A running job reports its own cancellation once it notices the signal
+    const position = queue.current.indexOf(id);
+    if (position >= 0) {
+      queue.current.splice(position, 1);
+      update(id, { status: 'cancelled', step: 'Cancelled', progress: null });
+    }
+  }, [update]);
+
+  const cancelAll = useCallback(() => {
+    [...queue.current, ...(runningId.current !== null ? [runningId.current] : [])].forEach(cancel);
+  }, [cancel]);
+
+  const retry = useCallback((id: number) => {
+    update(id, { status: 'queued', step: 'Waiting', progress: null, error: null });
+    schedule(id);
+  }, [schedule, update]);
+
+  const forget = (id: number) => {
+    payloads.current.delete(id);
+    controllers.current.delete(id);
+  };
+
+  const dismiss = useCallback((id: number) => {
+    forget(id);
+    setJobs(prev => prev.filter(job => job.id !== id));
+  }, []);
+
+  const clearFinished = useCallback(() => {
+    setJobs(prev => prev.filter(job => {
+      const active = job.status === 'queued' || job.status === 'running';
+      if (!active) forget(job.id);
+      return active;
+    }));
+  }, []);
+
+  return { jobs, enqueue, cancel, cancelAll, retry, dismiss, clearFinished };
+};